@@ -1,4 +1,5 @@
 import { Command } from 'commander'
+import { configManager } from '../modules/ConfigManager'
 import { SpaceCaptionsDownloader } from '../modules/SpaceCaptionsDownloader'
 import { SpaceCaptionsExtractor } from '../modules/SpaceCaptionsExtractor'
 import { CommandUtil } from '../utils/CommandUtil'
@@ -12,6 +13,7 @@ command
   .description('Download Space captions')
   .action((spaceId, endpoint, token, opts, cmd: Command) => {
     CommandUtil.detectDebugOption(cmd.parent.parent)
+    configManager.load()
     new SpaceCaptionsDownloader(spaceId, endpoint, token).download()
   })
 
@@ -21,6 +23,7 @@ command
   .description('Extract Space captions')
   .action((file, startedAt, opts, cmd: Command) => {
     CommandUtil.detectDebugOption(cmd.parent.parent)
+    configManager.load()
     new SpaceCaptionsExtractor(file, null, startedAt).extract()
   })
 
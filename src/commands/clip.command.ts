@@ -0,0 +1,48 @@
+import { Command } from 'commander'
+import path from 'path'
+import { AudioClipper } from '../modules/AudioClipper'
+import { configManager } from '../modules/ConfigManager'
+import { keywordManager } from '../modules/KeywordManager'
+import { logger } from '../logger'
+import { CommandUtil } from '../utils/CommandUtil'
+import { Util } from '../utils/Util'
+
+const command = new Command('clip')
+  .description('Cut audio clips of a recording, around keyword hits of its captions unless start & end are given')
+  .arguments('<FILE>')
+  .option('--start <TIME>', 'Clip start (hh:mm:ss or seconds)')
+  .option('--end <TIME>', 'Clip end (hh:mm:ss or seconds)')
+  .option('--captions <FILE>', 'Captions of the recording, default to <FILE> with .vtt extension')
+  .option('--padding <SECONDS>', 'Audio kept before & after each keyword hit')
+  .option('--user <USERNAME>', 'Use keyword dictionaries & options of this user')
+  .action(async (file: string, opts, cmd: Command) => {
+    CommandUtil.detectDebugOption(cmd.parent)
+    configManager.load()
+    const captionsFile = opts.captions || file.replace(/\.[^.]+$/, '.vtt')
+    const clipper = new AudioClipper(path.resolve(file), path.resolve(captionsFile))
+    try {
+      if (opts.start !== undefined || opts.end !== undefined) {
+        const start = Util.parseDisplayTime(opts.start ?? '0')
+        const end = Util.parseDisplayTime(opts.end)
+        if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+          throw new Error('Invalid clip range, --start & --end must be times with end after start')
+        }
+        await clipper.cut([{ start, end, labels: [] }])
+        return
+      }
+      const hits = clipper.getHits(keywordManager.getKeywords(opts.user))
+      if (!hits.length) {
+        logger.info(`No keyword hits in ${captionsFile}`)
+        return
+      }
+      const padding = opts.padding !== undefined
+        ? Number(opts.padding) * 1000
+        : configManager.getUserOptions(opts.user).clips.padding
+      await clipper.cut(AudioClipper.getClips(hits, padding))
+    } catch (error) {
+      logger.error(`clip: ${error.message}`)
+      process.exitCode = 1
+    }
+  })
+
+export { command as clipCommand }
@@ -0,0 +1,38 @@
+import { Command } from 'commander'
+import path from 'path'
+import { logger } from '../logger'
+import { configManager } from '../modules/ConfigManager'
+import { transcriptionQueue } from '../modules/TranscriptionQueue'
+import { CommandUtil } from '../utils/CommandUtil'
+import { Util } from '../utils/Util'
+
+const command = new Command('queue')
+  .description('Transcription queue')
+
+command
+  .command('list')
+  .alias('ls')
+  .description('List transcription jobs with their position & ETA')
+  .action((opts, cmd: Command) => {
+    CommandUtil.detectDebugOption(cmd.parent.parent)
+    configManager.load()
+    transcriptionQueue.load()
+    const jobs = transcriptionQueue.getJobs()
+    if (!jobs.length) {
+      logger.info('No job queued')
+      return
+    }
+    jobs.forEach((job) => {
+      const eta = transcriptionQueue.getEta(job.id)
+      logger.info(`#${transcriptionQueue.getPosition(job.id)} ${path.basename(job.audioFile)}`, {
+        status: job.status,
+        username: job.username,
+        priority: job.priority,
+        attempts: job.attempts,
+        eta: eta === undefined ? null : Util.getDisplayTime(eta),
+        error: job.error,
+      })
+    })
+  })
+
+export { command as queueCommand }
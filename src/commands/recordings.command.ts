@@ -0,0 +1,23 @@
+import { Command } from 'commander'
+import { logger } from '../logger'
+import { configManager } from '../modules/ConfigManager'
+import { recordingManager } from '../modules/RecordingManager'
+import { CommandUtil } from '../utils/CommandUtil'
+
+const command = new Command('recordings')
+  .description('Manage recordings')
+
+command
+  .command('resume')
+  .description('Resume incomplete recordings at their failed stage')
+  .action((opts, cmd: Command) => {
+    CommandUtil.detectDebugOption(cmd.parent.parent)
+    configManager.load()
+    recordingManager.resume()
+      .catch((error) => {
+        logger.error(`resume: ${error.message}`)
+        process.exitCode = 1
+      })
+  })
+
+export { command as recordingsCommand }
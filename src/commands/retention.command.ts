@@ -0,0 +1,24 @@
+import { Command } from 'commander'
+import { logger } from '../logger'
+import { configManager } from '../modules/ConfigManager'
+import { retentionManager } from '../modules/RetentionManager'
+import { CommandUtil } from '../utils/CommandUtil'
+
+const command = new Command('retention')
+  .description('Retention of recordings')
+
+command
+  .command('run')
+  .description('Apply retention rules of the config to the download directory')
+  .option('--dry-run', 'Only report what would be deleted or compressed')
+  .action((opts, cmd: Command) => {
+    CommandUtil.detectDebugOption(cmd.parent.parent)
+    configManager.load()
+    retentionManager.run(opts.dryRun)
+      .catch((error) => {
+        logger.error(`run: ${error.message}`)
+        process.exitCode = 1
+      })
+  })
+
+export { command as retentionCommand }
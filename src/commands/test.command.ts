@@ -1,6 +1,7 @@
 import { Command } from 'commander'
 import { readFileSync } from 'fs'
 import path from 'path'
+import { logger } from '../logger'
 import { SpaceDownloader } from '../modules/SpaceDownloader'
 import { Util } from '../utils/Util'
 
@@ -47,6 +48,10 @@ command
         space.started_at,
         metadata,
       ).download()
+        .catch((error) => {
+          logger.error(`download: ${error.message}`, { id: space.id })
+          process.exitCode = 1
+        })
     })
   })
 
@@ -0,0 +1,6 @@
+export const ALERT_CONTEXT_BEFORE = 2
+export const ALERT_CONTEXT_AFTER = 2
+export const ALERT_DEDUPE_WINDOW = 180000
+export const ALERT_CACHE_DURATION = 86400000
+export const ALERT_FILE_NAME = 'alerts.jsonl'
+export const ALERT_SENT_FILE_NAME = 'alerts.sent.json'
@@ -1,6 +1,48 @@
 export const APP_CACHE_DIR = './.cache'
 export const APP_DOWNLOAD_DIR = './download'
 export const APP_USER_REFRESH_INTERVAL = 120000
+export const APP_USER_LIST_MIN_CHECK_DELAY = 1000
 export const APP_SPACE_ERROR_RETRY_INTERVAL = 5000
 export const APP_PLAYLIST_REFRESH_INTERVAL = 120000
 export const APP_PLAYLIST_CHUNK_VERIFY_MAX_RETRY = 20
+/**
+ * Retries of a failed recording pipeline by its watcher, each one resumes at the failed stage
+ */
+export const APP_DOWNLOAD_MAX_RETRY = 3
+export const APP_DOWNLOAD_RETRY_INTERVAL = 300000
+export const APP_CONFIG_WATCH_INTERVAL = 5000
+export const APP_TRANSCRIBE_MODEL = 'small.en'
+export const APP_TRANSCRIBE_LIVE_MODEL = 'base.en'
+export const APP_LIVE_TRANSCRIBE_MIN_DURATION = 30000
+export const APP_PIPELINE_STATE_EXT = '.state.json'
+export const APP_FILENAME_TEMPLATE = '{username}-{startedAt:MM-dd-yyyy}-{id}'
+export const APP_DIRECTORY_TEMPLATE = '{username}'
+export const APP_TEMPLATE_DATE_FORMAT = 'yyyy-MM-dd'
+/**
+ * Leaves room for suffixes (`-live`, `.manifest.json.tmp`, ...) within the usual 255 bytes limit
+ */
+export const APP_FILENAME_MAX_BYTES = 180
+export const APP_POST_PROCESS_LOUDNESS = -16
+export const APP_POST_PROCESS_SILENCE_THRESHOLD = -50
+/**
+ * Shortest silence (ms) trimmed at the start & the end
+ */
+export const APP_POST_PROCESS_MIN_SILENCE = 1000
+/**
+ * Keyword hits with the same labels within this window (ms) share a chapter
+ */
+export const APP_CHAPTER_MERGE_WINDOW = 60000
+export const APP_CLIP_PADDING = 10000
+/**
+ * Files per Discord webhook message
+ */
+export const APP_WEBHOOK_MAX_ATTACHMENTS = 10
+/**
+ * Time (ms) recordings are waited for on shutdown, then child processes are terminated
+ */
+export const APP_SHUTDOWN_TIMEOUT = 60000
+/**
+ * Time (ms) terminated child processes have to exit before they are killed
+ */
+export const APP_SHUTDOWN_KILL_TIMEOUT = 5000
+export const APP_SHUTDOWN_CHECK_INTERVAL = 500
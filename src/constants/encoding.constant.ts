@@ -0,0 +1,21 @@
+import { EncodingProfile } from '../interfaces/Encoding.interface'
+
+export const ENCODING_DEFAULT_PROFILE = 'ogg'
+export const ENCODING_OPUS_BITRATE = '64k'
+export const ENCODING_MP3_BITRATE = '128k'
+export const ENCODING_AAC_BITRATE = '128k'
+/**
+ * Formats that can embed cover art as an attached picture
+ */
+export const ENCODING_COVER_FORMATS = ['m4a', 'mp3', 'flac']
+
+/**
+ * Built-in profiles, named after their format
+ */
+export const ENCODING_PROFILES: EncodingProfile[] = [
+  { name: 'ogg', format: 'ogg' },
+  { name: 'opus', format: 'opus' },
+  { name: 'm4a', format: 'm4a' },
+  { name: 'mp3', format: 'mp3' },
+  { name: 'flac', format: 'flac' },
+]
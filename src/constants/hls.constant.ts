@@ -0,0 +1,11 @@
+export const HLS_CHUNK_CONCURRENCY = 8
+export const HLS_CHUNK_MAX_RETRY = 5
+export const HLS_CHUNK_RETRY_DELAY = 1000
+export const HLS_CHUNK_TIMEOUT = 30000
+export const HLS_MANIFEST_EXT = '.manifest.json'
+export const HLS_MANIFEST_SAVE_INTERVAL = 1000
+/**
+ * Accepted difference between the recorded & expected duration, as a ratio of the expected duration
+ */
+export const HLS_DURATION_TOLERANCE_RATIO = 0.02
+export const HLS_DURATION_TOLERANCE_MIN = 30000
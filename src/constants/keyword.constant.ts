@@ -0,0 +1,19 @@
+import path from 'path'
+
+export const KEYWORD_FUZZY_THRESHOLD = 0.8
+export const KEYWORD_FUZZY_MIN_LENGTH = 4
+/**
+ * Phonetic codes are short, similarity of their codes is required to be higher
+ */
+export const KEYWORD_PHONETIC_THRESHOLD = 0.9
+/**
+ * Shorter words share codes with too many others
+ */
+export const KEYWORD_PHONETIC_MIN_LENGTH = 5
+
+export const KEYWORD_DEFAULT_DICTIONARY_NAME = 'default'
+
+/**
+ * Used when no dictionary is configured, shipped with the package
+ */
+export const KEYWORD_DEFAULT_DICTIONARY_FILE = path.join(__dirname, '../../keywords.default.yaml')
@@ -0,0 +1,14 @@
+import { ConcurrencySlot } from '../interfaces/App.interface'
+import { PipelineStageName } from '../interfaces/Pipeline.interface'
+
+export const PIPELINE_STAGES: PipelineStageName[] = ['ffmpeg', 'process', 'whisper', 'captions', 'tags', 'clips']
+export const PIPELINE_INTERRUPTED_ERROR = 'Interrupted by shutdown'
+/**
+ * Stages limited by concurrency slots, transcription is limited by the queue workers
+ */
+export const PIPELINE_STAGE_SLOTS: Partial<Record<PipelineStageName, ConcurrencySlot>> = {
+  ffmpeg: 'recordings',
+  process: 'postProcess',
+  tags: 'postProcess',
+  clips: 'postProcess',
+}
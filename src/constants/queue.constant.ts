@@ -0,0 +1,16 @@
+export const QUEUE_WORKERS = 1
+export const QUEUE_MAX_RETRY = 3
+export const QUEUE_RETRY_DELAY = 60000
+export const QUEUE_FILE_NAME = 'transcription-queue.json'
+/**
+ * Added to the user priority of live batches, so they run before recordings
+ */
+export const QUEUE_LIVE_PRIORITY = 1000
+/**
+ * Done jobs not claimed by their recording are removed after this duration
+ */
+export const QUEUE_DONE_MAX_AGE = 86400000
+/**
+ * Weight of the latest job when updating the processing speed estimate
+ */
+export const QUEUE_SPEED_SMOOTHING = 0.3
@@ -0,0 +1,16 @@
+export const RETENTION_INTERVAL = 3600000
+export const RETENTION_COMPRESS_BITRATE = '24k'
+/**
+ * Recordings with files modified within this window (ms) are being recorded or processed, they are skipped
+ */
+export const RETENTION_ACTIVE_WINDOW = 3600000
+export const RETENTION_AUDIO_EXTS = ['.ogg', '.opus', '.m4a', '.mp3', '.flac']
+/**
+ * Suffixes stripped from file names to find the recording they belong to
+ */
+export const RETENTION_SUFFIXES = [
+  ...RETENTION_AUDIO_EXTS,
+  '.aac', '.wav', '.16k', '.vtt', '.srt', '.json', '.txt', '.tsv', '.tmp',
+  '.chunks', '.manifest', '.state', '.transcript', '.original',
+]
+export const RETENTION_DAY = 86400000
@@ -0,0 +1,26 @@
+export const SCHEDULE_FILE_NAME = 'scheduled-spaces.json'
+/**
+ * Check intervals (ms) by time left until the planned start, the first matching step is used
+ */
+export const SCHEDULE_CHECK_STEPS = [
+  { before: 24 * 3600000, interval: 30 * 60000 },
+  { before: 3600000, interval: 10 * 60000 },
+  { before: 10 * 60000, interval: 60000 },
+  { before: 60000, interval: 15000 },
+]
+/**
+ * Interval (ms) from a minute before the planned start until shortly after it
+ */
+export const SCHEDULE_CHECK_INTERVAL_MIN = 5000
+/**
+ * Time (ms) after the planned start checked at the shortest interval
+ */
+export const SCHEDULE_LATE_WINDOW = 10 * 60000
+/**
+ * Interval (ms) once the Space is late
+ */
+export const SCHEDULE_LATE_INTERVAL = 60000
+/**
+ * Spaces that did not start this long (ms) after their planned start are dropped
+ */
+export const SCHEDULE_MAX_DELAY = 24 * 3600000
@@ -0,0 +1,5 @@
+export const STORAGE_S3_REGION = 'us-east-1'
+export const STORAGE_PART_SIZE = 8
+export const STORAGE_PART_MIN_SIZE = 5
+export const STORAGE_PART_MAX_RETRY = 3
+export const STORAGE_PRESIGN_EXPIRY = 604800
@@ -0,0 +1,5 @@
+export const SPACE_STORE_FILE_NAME = 'spaces.journal.jsonl'
+/**
+ * Pending Spaces discovered longer ago (ms) are not watched again on startup
+ */
+export const SPACE_STORE_RESTORE_MAX_AGE = 24 * 3600000
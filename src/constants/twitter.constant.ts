@@ -3,3 +3,7 @@ export const TWITTER_GUEST_TOKEN_RETRY_MS = 5000
 export const TWITTER_GUEST_TOKEN_DURATION = 1800000
 export const TWITTER_API_LIST_SIZE = 100
 export const TWITTER_USER_FETCH_INTERVAL = 60000
+/**
+ * Participant roles, highest first
+ */
+export const TWITTER_PARTICIPANT_ROLES = ['host', 'co-host', 'speaker', 'listener']
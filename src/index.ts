@@ -5,11 +5,19 @@ import { Command, program } from 'commander'
 import dotenv from 'dotenv'
 import 'dotenv/config'
 import { ccCommand } from './commands/cc.command'
+import { clipCommand } from './commands/clip.command'
+import { queueCommand } from './commands/queue.command'
+import { recordingsCommand } from './commands/recordings.command'
+import { retentionCommand } from './commands/retention.command'
 import { testCommand } from './commands/test.command'
 import { logger } from './logger'
 import { configManager } from './modules/ConfigManager'
 import { mainManager } from './modules/MainManager'
+import { recordingManager } from './modules/RecordingManager'
+import { retentionManager } from './modules/RetentionManager'
+import { scheduledSpaceManager } from './modules/ScheduledSpaceManager'
 import { SpaceDownloader } from './modules/SpaceDownloader'
+import { transcriptionQueue } from './modules/TranscriptionQueue'
 import { userManager } from './modules/UserManager'
 import { CommandUtil } from './utils/CommandUtil'
 import { TwitterUtil } from './utils/TwitterUtil'
@@ -39,6 +47,7 @@ program
   .option('-d, --debug', 'Show debug logs')
   .option('--env <ENV_PATH>', 'Path to .env file, default to current working folder (See .env.example)')
   .option('--config <CONFIG_PATH>', 'Path to config file (See config.example.json)')
+  .option('--validate-config', 'Validate config file then exit')
   .option('--user <USER>', 'Monitor & download live Spaces from users, separate by comma (,)')
   .option('--id <SPACE_ID>', 'Monitor & download live Space with its id')
   .option('-surl, --space-url <SPACE_URL>', 'Monitor & download live Space with its URL')
@@ -47,6 +56,10 @@ program
   .option('--notification', 'Show notification about new live Space')
   .option('--force-open', 'Force open Space in browser')
   .addCommand(ccCommand)
+  .addCommand(clipCommand)
+  .addCommand(queueCommand)
+  .addCommand(recordingsCommand)
+  .addCommand(retentionCommand)
   .addCommand(testCommand)
 
 program.action(async (args, cmd: Command) => {
@@ -54,6 +67,22 @@ program.action(async (args, cmd: Command) => {
   logger.info(`Version: ${pkg.version}`)
   CommandUtil.detectDebugOption(cmd)
 
+  if (args.validateConfig) {
+    if (!configManager.configPath) {
+      logger.error('Missing config file, use with --config <CONFIG_PATH>')
+      process.exitCode = 1
+      return
+    }
+    configManager.load()
+    if (!configManager.isValid) {
+      logger.error(`Config invalid: ${configManager.errors.length} error(s) found`)
+      process.exitCode = 1
+      return
+    }
+    logger.info('Config valid')
+    return
+  }
+
   await checkVersion()
 
   logger.debug('Args', args)
@@ -70,21 +99,29 @@ program.action(async (args, cmd: Command) => {
     logger.debug(`env.${key}=${value}`)
   })
 
-  configManager.load()
-
   const {
     url, id, spaceUrl, user,
   } = args
+  const isUserMode = !url && !id && !spaceUrl
+
+  configManager.load()
+  // user mode keeps running to pick up users added to the config file
+  configManager.watch(isUserMode)
+  mainManager.handleSignals()
 
   if (url && !id && !spaceUrl) {
     logger.info('Starting in playlist url mode', { url })
     new SpaceDownloader(url, Util.getDateTimeString(), 'playlist', 0).download()
+      .catch((error) => {
+        logger.error(`download: ${error.message}`)
+        process.exitCode = 1
+      })
     return
   }
 
   if (id) {
     logger.info('Starting in space id mode', { id })
-    mainManager.addSpaceWatcher(id)
+    mainManager.addSpaceWatcher(id, true)
     return
   }
 
@@ -95,24 +132,46 @@ program.action(async (args, cmd: Command) => {
       logger.error(`Space URL invalid: ${spaceUrl}`)
       return
     }
-    mainManager.addSpaceWatcher(spaceId)
+    mainManager.addSpaceWatcher(spaceId, true)
     return
   }
 
-  const usernames = [...new Set(
+  if (!configManager.isValid) {
+    logger.error('Config invalid, refusing to start in user mode')
+    process.exitCode = 1
+    return
+  }
+
+  // background work of the long running process, other modes only handle their own Space
+  transcriptionQueue.resume()
+  recordingManager.resume()
+    .catch((error) => logger.error(`resume: ${error.message}`))
+  retentionManager.start()
+
+  const getUsernames = () => [...new Set(
     (user || '')
       .split(',')
       .concat((configManager.config.users || []).map((v) => v.username))
       .filter((v) => v),
   )] as string[]
-  if (usernames.length) {
-    logger.info('Starting in user mode', { userCount: usernames.length, users: usernames })
-    await userManager.add(usernames)
-    if (Util.getTwitterAuthorization() || Util.getTwitterAuthToken()) {
-      mainManager.runUserListWatcher()
-    } else {
-      usernames.forEach((username) => mainManager.addUserWatcher(username))
-    }
+  const usernames = getUsernames()
+  if (!usernames.length && !configManager.configPath) {
+    logger.error('No user to monitor, use --user <USER> or --config <CONFIG_PATH>')
+    return
+  }
+  logger.info('Starting in user mode', { userCount: usernames.length, users: usernames })
+  if (!usernames.length) {
+    logger.warn('No user to monitor yet, users added to the config file are picked up')
+  }
+  configManager.on('change', () => mainManager.syncUsers(getUsernames())
+    .catch((error) => logger.error(`syncUsers: ${error.message}`)))
+  await userManager.add(usernames)
+  scheduledSpaceManager.resume()
+  mainManager.restoreSpaceWatchers()
+  if (Util.getTwitterAuthorization() || Util.getTwitterAuthToken()) {
+    mainManager.runUserListWatcher()
+  } else {
+    usernames.forEach((username) => mainManager.addUserWatcher(username))
   }
 })
 
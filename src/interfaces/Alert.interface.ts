@@ -0,0 +1,29 @@
+import { KeywordMatcher } from './Keyword.interface'
+import { CaptionPhrase } from './Twitter.interface'
+
+export interface KeywordAlert {
+  id: string
+  spaceId: string
+  spaceUrl: string
+  title: string
+  username: string
+  live: boolean
+  keyword: string
+  matcher: KeywordMatcher
+  confidence: number
+  /**
+   * Position of the hit in the Space (ms)
+   */
+  ts: number
+  phrase: CaptionPhrase
+  context: {
+    before: CaptionPhrase[]
+    after: CaptionPhrase[]
+  }
+  createdAt: number
+}
+
+/**
+ * Kept in the cache directory to skip alerts already sent, across restarts
+ */
+export type SentAlert = Pick<KeywordAlert, 'id' | 'spaceId' | 'keyword' | 'ts' | 'createdAt'>
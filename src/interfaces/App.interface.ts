@@ -1,26 +1,330 @@
-export interface Config {
+import { AudioClipOptions, AudioCoverArt, AudioPostProcessOptions } from './Audio.interface'
+import { EncodingProfile } from './Encoding.interface'
+import { StorageOptions } from './Storage.interface'
+import { SpaceParticipantRole } from './Twitter.interface'
+import { TranscriberOptions } from './Transcriber.interface'
+
+/**
+ * Options that can be set globally, per category & per user.
+ * Resolution order: user > category > global
+ */
+export interface UserOptions {
+  /**
+   * User polling interval (ms)
+   */
+  interval?: number
+  /**
+   * Download Space audio
+   */
+  record?: boolean
+  /**
+   * Transcriber options (backend, binary, language, threads, args, url) apply to both models
+   */
+  transcribe?: TranscriberOptions & {
+    enabled?: boolean
+    /**
+     * Model used after the Space ended
+     */
+    model?: string
+    /**
+     * Model used while the Space is live
+     */
+    liveModel?: string
+  }
+  /**
+   * Audio outputs of each Space
+   */
+  audio?: {
+    /**
+     * Encoding profile names, default to `ogg`
+     */
+    profiles?: string[]
+    /**
+     * Profile transcribed, default to the first profile
+     */
+    transcribe?: string
+    /**
+     * Profile attached to webhooks, default to the first profile
+     */
+    webhook?: string
+    /**
+     * Host image embedded as cover art, default to `avatar`
+     */
+    coverArt?: AudioCoverArt
+    /**
+     * Add chapter markers at keyword hits, default to true
+     */
+    chapters?: boolean
+  }
+  /**
+   * Post-processing of audio outputs after download
+   */
+  postProcess?: AudioPostProcessOptions
+  /**
+   * Audio clips around keyword hits
+   */
+  clips?: AudioClipOptions
+  /**
+   * Spaces of other hosts where the user is a participant
+   */
+  guest?: {
+    /**
+     * Record guest appearances, default to true
+     */
+    record?: boolean
+    /**
+     * Send webhooks of guest appearances, default to true
+     */
+    webhook?: boolean
+    /**
+     * Roles that count as an appearance, default to all of them
+     */
+    roles?: Exclude<SpaceParticipantRole, 'host'>[]
+  }
+  /**
+   * Recording file name, e.g. `{username}-{startedAt:MM-dd-yyyy}-{id}`.
+   * Fields: username, displayName, title, id, startedAt, category
+   */
+  filenameTemplate?: string
+  /**
+   * Recording directory relative to the download root, `/` separates sub directories, e.g. `{category}/{username}`
+   */
+  directoryTemplate?: string
+  /**
+   * Only send to Discord webhooks with these ids, send to all active webhooks if not set
+   */
+  webhookIds?: string[]
+  /**
+   * Names of keyword dictionaries used to scan captions, use all dictionaries if not set
+   */
+  dictionaries?: string[]
+  /**
+   * Priority of transcription jobs & concurrency slots, higher runs first, default to 0
+   */
+  priority?: number
+}
+
+export interface KeywordFuzzyOptions {
+  /**
+   * Compare phonetic codes, `true` uses Metaphone
+   */
+  phonetic?: boolean | 'metaphone' | 'soundex'
+  /**
+   * Compare edit distance
+   */
+  editDistance?: boolean
+  /**
+   * Minimum text similarity (0-1) to accept an edit distance match, default to 0.8
+   */
+  threshold?: number
+  /**
+   * Minimum similarity (0-1) of phonetic codes to accept a phonetic match, default to 0.9
+   */
+  phoneticThreshold?: number
+}
+
+export interface KeywordEntry {
+  /**
+   * Canonical label, replaces matched text in captions
+   */
+  label: string
+  aliases?: string[]
+  /**
+   * Raw regex source, matched in addition to aliases
+   */
+  regex?: string
+  caseSensitive?: boolean
+  wholeWord?: boolean
+  fuzzy?: KeywordFuzzyOptions
+}
+
+export interface KeywordDictionaryConfig {
+  name: string
+  /**
+   * Path to a JSON/YAML file with a list of entries, relative to the config file
+   */
+  file?: string
+  keywords?: KeywordEntry[]
+  /**
+   * Default fuzzy options of entries
+   */
+  fuzzy?: KeywordFuzzyOptions
+}
+
+export interface UserConfig extends UserOptions {
+  username: string
+  category?: string
+}
+
+/**
+ * Number of tasks running at the same time, unlimited if not set
+ */
+export interface ConcurrencyConfig {
+  /**
+   * Recording downloads
+   */
+  recordings?: number
+  /**
+   * ffmpeg runs after recordings: post-processing, cover art & chapters, clips & live transcription batches
+   */
+  postProcess?: number
+  /**
+   * Webhooks with a recording
+   */
+  webhooks?: number
+}
+
+export type ConcurrencySlot = keyof ConcurrencyConfig
+
+export interface CategoryConfig extends UserOptions {
+  name: string
+  color?: string
+  /**
+   * Limits of the category, within the global limits
+   */
+  concurrency?: ConcurrencyConfig
+}
+
+export interface DiscordWebhookConfig {
+  id?: string
+  active: boolean
+  urls: string[]
+  usernames: ('<all>' | string)[]
+  mentions?: {
+    roleIds?: string[]
+    userIds?: string[]
+  }
+  startMessage?: string
+  endMessage?: string
+  /**
+   * Messages of scheduled & canceled Spaces
+   */
+  scheduledMessage?: string
+  canceledMessage?: string
+}
+
+export interface AlertSinkConfig {
+  type: 'discord' | 'http' | 'file'
+  /**
+   * Discord webhook url or HTTP endpoint
+   */
+  url?: string
+  /**
+   * Path of the JSON lines file, default to logs/alerts.jsonl
+   */
+  file?: string
+  /**
+   * Only send alerts of these keyword labels, send all alerts if not set
+   */
+  labels?: string[]
+}
+
+export interface AlertConfig {
+  active?: boolean
+  /**
+   * Number of captions before & after the hit
+   */
+  contextBefore?: number
+  contextAfter?: number
+  /**
+   * Same keyword within this window (ms) of the Space timeline is only alerted once
+   */
+  dedupeWindow?: number
+  sinks?: AlertSinkConfig[]
+}
+
+export interface TranscriptionQueueConfig {
+  /**
+   * Number of transcription jobs running at the same time, default to 1
+   */
+  workers?: number
+  /**
+   * Retries of a failed job, default to 3
+   */
+  retries?: number
+  /**
+   * Delay (ms) before the first retry, doubled on each retry
+   */
+  retryDelay?: number
+}
+
+export interface RetentionConfig {
+  active?: boolean
+  /**
+   * Only report what would be done
+   */
+  dryRun?: boolean
+  /**
+   * Run interval (ms), default to 1 hour
+   */
   interval?: number
+  /**
+   * Delete recordings older than this (days)
+   */
+  maxAge?: number
+  /**
+   * Delete oldest recordings while the download directory is larger than this (MB)
+   */
+  maxSize?: number
+  /**
+   * Keep the newest recordings of each user directory
+   */
+  keepPerUser?: number
+  /**
+   * Delete intermediate files (live batches, whisper extra outputs, completed manifests & states)
+   * of recordings older than this (days), 0 to delete them once the recording is complete
+   */
+  dropIntermediatesAfter?: number
+  /**
+   * Re-encode audio of recordings older than this (days) to opus
+   */
+  compressAfter?: number
+  /**
+   * Bitrate of compressed audio, default to 24k
+   */
+  compressBitrate?: string
+}
+
+export interface FreeSpaceConfig {
+  /**
+   * Warn when free space of the download directory is below this (MB) before a recording
+   */
+  warn?: number
+  /**
+   * Skip recordings when free space is below this (MB)
+   */
+  refuse?: number
+}
 
-  users?: ({
-    username: string,
-    category: string
-  })[]
-  categories?: ({
-    name: string,
-    color: string
-  })[]
+export interface Config extends UserOptions {
+  /**
+   * Root directory of recordings, relative to the working directory, default to `./download`
+   */
+  downloadDir?: string
+  /**
+   * Only process Spaces of other hosts when a tracked user is a participant, by their guest options.
+   * Filters Spaces already found, it does not discover more
+   */
+  participantFilter?: boolean
+  /**
+   * Time (ms) active recordings are waited for on SIGINT & SIGTERM, default to 1 minute
+   */
+  shutdownTimeout?: number
+  concurrency?: ConcurrencyConfig
+  users?: UserConfig[]
+  categories?: CategoryConfig[]
+  keywordDictionaries?: KeywordDictionaryConfig[]
+  alerts?: AlertConfig
+  transcriptionQueue?: TranscriptionQueueConfig
+  /**
+   * Custom encoding profiles, a profile named like a built-in one replaces it
+   */
+  encodingProfiles?: EncodingProfile[]
+  retention?: RetentionConfig
+  storage?: StorageOptions
+  freeSpace?: FreeSpaceConfig
 
   webhooks?: {
-    discord?: {
-      active: boolean
-      urls: string[]
-      usernames: ('<all>' | string)[]
-      mentions?: {
-        roleIds?: string[]
-        userIds?: string[]
-      }
-      startMessage?: string
-      endMessage?: string
-    }[]
+    discord?: DiscordWebhookConfig[]
   }
 }
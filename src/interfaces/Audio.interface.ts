@@ -0,0 +1,70 @@
+export interface AudioPostProcessOptions {
+  /**
+   * EBU R128 loudness normalization
+   */
+  normalize?: boolean
+  /**
+   * Integrated loudness target (LUFS), default to -16
+   */
+  loudness?: number
+  /**
+   * Trim silence at the start & the end
+   */
+  trimSilence?: boolean
+  /**
+   * Silences in the middle longer than this (ms) are shortened to it
+   */
+  maxSilence?: number
+  /**
+   * Level (dB) under which audio is silence, default to -50
+   */
+  silenceThreshold?: number
+  /**
+   * Keep the joined chunks as `<name>.original.aac`
+   */
+  keepOriginal?: boolean
+}
+
+/**
+ * Part of the audio (ms)
+ */
+export interface AudioSegment {
+  start: number
+  end: number
+}
+
+/**
+ * Chapter marker (ms) of a recording
+ */
+export interface AudioChapter {
+  start: number
+  end: number
+  title: string
+}
+
+export type AudioCoverArt = 'avatar' | 'banner' | 'none'
+
+/**
+ * Part of a recording cut to its own file (ms)
+ */
+export interface AudioClip extends AudioSegment {
+  /**
+   * Keyword labels hit within the clip
+   */
+  labels: string[]
+}
+
+export interface AudioClipOptions {
+  /**
+   * Cut clips around keyword hits after captions are processed
+   */
+  enabled?: boolean
+  /**
+   * Audio kept before & after each hit (ms), default to 10000
+   */
+  padding?: number
+  /**
+   * Attach clips to Discord webhooks
+   */
+  webhook?: boolean
+}
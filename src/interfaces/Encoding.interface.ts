@@ -0,0 +1,14 @@
+export type EncodingFormat = 'ogg' | 'opus' | 'm4a' | 'mp3' | 'flac'
+
+export interface EncodingProfile {
+  name: string
+  format: EncodingFormat
+  /**
+   * Audio bitrate, e.g. `64k`, used by opus & mp3
+   */
+  bitrate?: string
+  /**
+   * Extra ffmpeg output arguments
+   */
+  args?: string[]
+}
@@ -0,0 +1,105 @@
+export interface HlsOutput {
+  /**
+   * File name, in the directory of the main output
+   */
+  file: string
+  args?: string[]
+}
+
+export interface HlsDownloaderOptions {
+  /**
+   * Chunks downloaded at the same time
+   */
+  concurrency?: number
+  /**
+   * Retries of a failed chunk
+   */
+  retries?: number
+  /**
+   * Delay (ms) before the first retry, multiplied by the attempt number
+   */
+  retryDelay?: number
+  /**
+   * Extra ffmpeg output arguments, e.g. `-c:a copy`
+   */
+  outputArgs?: string[]
+  /**
+   * Other outputs encoded from the same audio
+   */
+  outputs?: HlsOutput[]
+  metadata?: Record<string, any>
+  /**
+   * Host username, kept in the manifest to group recordings by user
+   */
+  username?: string
+  /**
+   * Space duration (ms), from `ended_at - started_at`
+   */
+  expectedDuration?: number
+  /**
+   * Last chunk index seen while the Space was live
+   */
+  lastChunkIndex?: number
+  /**
+   * Keep the joined chunks as `<name>.aac`, e.g. as the source of post-processing
+   */
+  keepRaw?: boolean
+}
+
+export interface HlsProgress {
+  total: number
+  downloaded: number
+  failed: number
+  bytes: number
+}
+
+export type RecordingIntegrityStatus = 'verified' | 'repaired' | 'incomplete'
+
+export interface RecordingIntegrity {
+  status: RecordingIntegrityStatus
+  /**
+   * Probed duration (ms) of the output, missing if it could not be probed
+   */
+  duration?: number
+  expectedDuration?: number
+  /**
+   * Sum of chunk durations (ms) of the playlist
+   */
+  playlistDuration: number
+  chunkCount: number
+  /**
+   * Chunk indexes found missing before repair
+   */
+  gaps: number[]
+  /**
+   * Chunk indexes still missing after repair
+   */
+  missingChunks: number[]
+  checkedAt: number
+}
+
+export interface RecordingManifestChunk {
+  index: number
+  url: string
+  fetched: boolean
+}
+
+/**
+ * Stored next to the audio as `<name>.manifest.json`
+ */
+export interface RecordingManifest {
+  /**
+   * Final playlist url
+   */
+  playlistUrl: string
+  /**
+   * Audio file name, relative to the manifest
+   */
+  audioFile: string
+  options?: Pick<HlsDownloaderOptions, 'metadata' | 'username' | 'outputArgs' | 'outputs' | 'expectedDuration' | 'lastChunkIndex' | 'keepRaw'>
+  chunks: RecordingManifestChunk[]
+  complete: boolean
+  integrity?: RecordingIntegrity
+  createdAt: number
+  updatedAt: number
+}
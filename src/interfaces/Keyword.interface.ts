@@ -0,0 +1,25 @@
+import { KeywordFuzzyOptions } from './App.interface'
+
+export type KeywordMatcher = 'alias' | 'regex' | 'phonetic' | 'fuzzy'
+
+export interface Keyword {
+  label: string
+  aliasRegexp?: RegExp
+  rawRegexp?: RegExp
+  /**
+   * Phrases compared by fuzzy/phonetic matchers (label & aliases)
+   */
+  phrases: string[]
+  fuzzy?: KeywordFuzzyOptions
+}
+
+export interface KeywordMatch {
+  label: string
+  matcher: KeywordMatcher
+  /**
+   * 0-1, exact matches are 1
+   */
+  confidence: number
+  text: string
+  index: number
+}
@@ -33,3 +33,16 @@ export interface ChatHistory {
   messages: ChatMessage[]
   cursor: string
 }
+
+export interface PlaylistChunk {
+  index: number
+  url: string
+  /**
+   * Duration (ms) from `#EXTINF`
+   */
+  duration: number
+  /**
+   * Timestamp (ms) from `#EXT-X-PROGRAM-DATE-TIME`, if any
+   */
+  programDateTime?: number
+}
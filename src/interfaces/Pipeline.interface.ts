@@ -0,0 +1,58 @@
+import { AudioSegment } from './Audio.interface'
+import { RecordingIntegrity } from './Hls.interface'
+import { SpaceDownloaderOptions } from './SpaceDownloaderOptions.interface'
+
+export type PipelineStageName = 'ffmpeg' | 'process' | 'whisper' | 'captions' | 'tags' | 'clips'
+
+/**
+ * `waiting` for a concurrency slot
+ */
+export type PipelineStageStatus = 'pending' | 'waiting' | 'in-progress' | 'complete' | 'error'
+
+export interface PipelineStage {
+  status: PipelineStageStatus
+  file: string
+  /**
+   * Error of the last failed run
+   */
+  error?: string
+  /**
+   * Last lines of stderr of the last failed run, if it ran a process
+   */
+  stderr?: string
+  /**
+   * Number of failed runs
+   */
+  retries: number
+  /**
+   * Output files stored with the storage backend
+   */
+  uploaded?: boolean
+  updatedAt?: number
+}
+
+/**
+ * Stored next to the audio as `<name>.state.json`
+ */
+export interface PipelineState {
+  originUrl: string
+  filename: string
+  subDir: string
+  startedAt: number
+  metadata?: Record<string, any>
+  options: SpaceDownloaderOptions
+  stages: Record<PipelineStageName, PipelineStage>
+  /**
+   * Set once the audio is downloaded
+   */
+  integrity?: RecordingIntegrity
+  /**
+   * Segments (ms) removed from the audio by post-processing
+   */
+  removedSegments?: AudioSegment[]
+  /**
+   * Audio files of the clips stage
+   */
+  clipFiles?: string[]
+  updatedAt: number
+}
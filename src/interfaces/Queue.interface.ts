@@ -0,0 +1,53 @@
+import { AudioSegment } from './Audio.interface'
+import { TranscriberOptions } from './Transcriber.interface'
+
+export interface TranscriptionJob {
+  id: string
+  /**
+   * Host username, used to pick keyword dictionaries
+   */
+  username?: string
+  audioFile: string
+  captionsFile: string
+  transcriber: TranscriberOptions
+  /**
+   * Segments (ms) removed by post-processing, phrases are mapped back to the Space timeline
+   */
+  removedSegments?: AudioSegment[]
+  /**
+   * Start (ms) of the audio on the Space timeline, added to phrases
+   */
+  offset?: number
+  /**
+   * Batch of a live Space, not resumed after a restart as the recording is transcribed anyway
+   */
+  live?: boolean
+  /**
+   * Higher runs first
+   */
+  priority: number
+  /**
+   * `done` jobs were completed after a restart, before their recording claimed the captions
+   */
+  status: 'queued' | 'running' | 'done'
+  attempts: number
+  /**
+   * Audio file size (bytes), used to estimate processing time
+   */
+  size: number
+  error?: string
+  createdAt: number
+  startedAt?: number
+  completedAt?: number
+  nextAttemptAt?: number
+}
+
+export interface TranscriptionQueueState {
+  jobs: TranscriptionJob[]
+  stats: {
+    /**
+     * Processing time (ms) per byte of audio
+     */
+    msPerByte?: number
+  }
+}
@@ -0,0 +1,43 @@
+export type RetentionFileType = 'audio' | 'captions' | 'state' | 'intermediate'
+
+export interface RetentionFile {
+  file: string
+  type: RetentionFileType
+  size: number
+  mtime: number
+}
+
+/**
+ * Files of the same Space, grouped by name
+ */
+export interface RetentionRecording {
+  name: string
+  dir: string
+  files: RetentionFile[]
+  size: number
+  /**
+   * Latest modification time of its files
+   */
+  mtime: number
+  /**
+   * False while its manifest, pipeline state or chunks show it is not done
+   */
+  complete: boolean
+  /**
+   * Host username from the pipeline state or manifest, if any
+   */
+  username?: string
+}
+
+export type RetentionRule = 'maxAge' | 'keepPerUser' | 'maxSize' | 'dropIntermediatesAfter' | 'compressAfter'
+
+export interface RetentionAction {
+  rule: RetentionRule
+  type: 'delete' | 'compress'
+  recording: string
+  files: string[]
+  /**
+   * Size (bytes) of the files removed or re-encoded
+   */
+  size: number
+}
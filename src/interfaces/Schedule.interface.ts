@@ -0,0 +1,19 @@
+import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+
+export interface ScheduledSpace {
+  id: string
+  username?: string
+  title?: string
+  /**
+   * Planned start (ms)
+   */
+  scheduledStart?: number
+  state: AudioSpaceMetadataState
+  addedAt: number
+  checkedAt?: number
+  nextCheckAt: number
+}
+
+export interface ScheduledSpaceState {
+  spaces: ScheduledSpace[]
+}
@@ -0,0 +1,55 @@
+/* eslint-disable no-use-before-define */
+export type SchemaPath = (string | number)[]
+
+interface BaseSchema {
+  description?: string
+  /**
+   * Extra check that runs after the type check passed, returns an error message if the value is invalid
+   */
+  validate?: (value: any) => string | void
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string'
+  enum?: string[]
+  pattern?: RegExp
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number'
+  integer?: boolean
+  min?: number
+  max?: number
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean'
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array'
+  items: Schema
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object'
+  properties?: Record<string, Schema>
+  required?: string[]
+  /**
+   * Schema of the values when the object is used as a map
+   */
+  values?: Schema
+}
+
+export interface UnionSchema extends BaseSchema {
+  type: 'union'
+  schemas: Schema[]
+}
+
+export type Schema = StringSchema | NumberSchema | BooleanSchema | ArraySchema | ObjectSchema | UnionSchema
+
+export interface SchemaError {
+  path: SchemaPath
+  message: string
+  line?: number
+}
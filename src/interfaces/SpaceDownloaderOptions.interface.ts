@@ -0,0 +1,55 @@
+import { AudioClipOptions, AudioPostProcessOptions } from './Audio.interface'
+import { EncodingProfile } from './Encoding.interface'
+import { TranscriberOptions } from './Transcriber.interface'
+
+export interface SpaceDownloaderOptions {
+  /**
+   * Host username, used to pick keyword dictionaries
+   */
+  username?: string
+  /**
+   * Transcribe audio & process captions after download, default to true
+   */
+  transcribe?: boolean
+  /**
+   * Transcription backend, model default to base.en when live & small.en otherwise
+   */
+  transcriber?: TranscriberOptions
+  /**
+   * Priority of the transcription job
+   */
+  priority?: number
+  /**
+   * Space duration (ms), used to verify the recording
+   */
+  expectedDuration?: number
+  /**
+   * Last chunk index seen while the Space was live, used to find missing chunks
+   */
+  lastChunkIndex?: number
+  /**
+   * Encoding profiles of audio outputs, the first one is the main output.
+   * Default to the user audio profiles
+   */
+  outputs?: EncodingProfile[]
+  /**
+   * Profile name of the output transcribed, default to the main output
+   */
+  transcribeOutput?: string
+  /**
+   * Post-processing of audio outputs after download
+   */
+  postProcess?: AudioPostProcessOptions
+  /**
+   * Image embedded as cover art
+   */
+  coverUrl?: string
+  /**
+   * Add chapter markers at keyword hits
+   */
+  chapters?: boolean
+  /**
+   * Audio clips around keyword hits
+   */
+  clips?: AudioClipOptions
+}
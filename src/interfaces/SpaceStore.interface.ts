@@ -0,0 +1,50 @@
+import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+import { PipelineStageName, PipelineStageStatus } from './Pipeline.interface'
+
+export interface SpaceStateTransition {
+  state: AudioSpaceMetadataState
+  at: number
+}
+
+export interface SpaceWebhookDelivery {
+  /**
+   * Space state the webhook was sent for
+   */
+  state: AudioSpaceMetadataState
+  at: number
+}
+
+export interface SpaceRecord {
+  id: string
+  username?: string
+  title?: string
+  discoveredAt: number
+  state?: AudioSpaceMetadataState
+  states: SpaceStateTransition[]
+  webhooks: SpaceWebhookDelivery[]
+  /**
+   * Last pipeline stage that ran, set once the recording started
+   */
+  stage?: {
+    name: PipelineStageName
+    status: PipelineStageStatus
+    at: number
+  }
+  /**
+   * Set once the Space is handled, it is never processed again
+   */
+  completedAt?: number
+  updatedAt: number
+}
+
+/**
+ * Line of the journal, `snapshot` lines are written when it is compacted
+ */
+export type SpaceJournalEntry = { id: string, at: number } & (
+  | { type: 'discovered', username?: string }
+  | { type: 'state', state: AudioSpaceMetadataState, username?: string, title?: string }
+  | { type: 'webhook', state: AudioSpaceMetadataState }
+  | { type: 'stage', name: PipelineStageName, status: PipelineStageStatus }
+  | { type: 'complete' }
+  | { type: 'snapshot', record: SpaceRecord }
+)
@@ -0,0 +1,59 @@
+export type StorageBackend = 'local' | 's3'
+
+export interface S3StorageOptions {
+  /**
+   * e.g. `http://localhost:9000` for MinIO, default to AWS
+   */
+  endpoint?: string
+  region?: string
+  bucket: string
+  /**
+   * Default to `AWS_ACCESS_KEY_ID` & `AWS_SECRET_ACCESS_KEY` env
+   */
+  accessKeyId?: string
+  secretAccessKey?: string
+  /**
+   * Use `<endpoint>/<bucket>/<key>` urls instead of `<bucket>.<endpoint>/<key>`, default to true
+   */
+  forcePathStyle?: boolean
+  /**
+   * Multipart upload part size (MB), at least 5, default to 8
+   */
+  partSize?: number
+  /**
+   * Lifetime (s) of presigned urls, at most 7 days
+   */
+  presignExpiry?: number
+}
+
+export interface StorageOptions {
+  backend?: StorageBackend
+  /**
+   * Local backend: directory files are copied to, default to the download directory (no copy)
+   */
+  dir?: string
+  /**
+   * Prefix of keys, keys are paths relative to the download directory
+   */
+  prefix?: string
+  /**
+   * Base url of stored files, presigned urls are used for s3 when not set
+   */
+  publicUrl?: string
+  /**
+   * Send the audio url in webhooks instead of attaching the file
+   */
+  webhookLinks?: boolean
+  s3?: S3StorageOptions
+}
+
+export interface Storage {
+  /**
+   * Stores a local file under a key
+   */
+  upload(file: string, key: string): Promise<void>
+  /**
+   * Returns a url to download a stored file, undefined if it can not be shared
+   */
+  getUrl(key: string): Promise<string>
+}
@@ -0,0 +1,11 @@
+/**
+ * Fields of filename & directory templates
+ */
+export interface TemplateFields {
+  username?: string
+  displayName?: string
+  title?: string
+  id?: string
+  startedAt?: number
+  category?: string
+}
@@ -0,0 +1,29 @@
+import { Cue } from 'subtitle'
+
+export type TranscriberBackend = 'whisper' | 'whisper.cpp' | 'faster-whisper' | 'http'
+
+export interface TranscriberOptions {
+  backend?: TranscriberBackend
+  /**
+   * Path to the executable, default depends on backend
+   */
+  binary?: string
+  model?: string
+  language?: string
+  threads?: number
+  /**
+   * Extra arguments passed to the executable
+   */
+  args?: string[]
+  /**
+   * Endpoint of the http backend (OpenAI compatible `/v1/audio/transcriptions`)
+   */
+  url?: string
+}
+
+export interface Transcriber {
+  /**
+   * Transcribes audio & returns its captions, output files are written next to the audio
+   */
+  transcribe(audioFile: string): Promise<Cue[]>
+}
@@ -1,12 +1,16 @@
 import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+import { RecordingIntegrity } from './Hls.interface'
+import { KeywordMatch } from './Keyword.interface'
 
 export class CaptionPhrase {
   constructor(
     public readonly ts: number,
-    public readonly text: string
+    public readonly text: string,
+    public readonly matches: KeywordMatch[] = []
   ) {
     this.ts = ts;
     this.text = text;
+    this.matches = matches;
   }
 };
 
@@ -31,6 +35,10 @@ export interface AudioSpaceMetadata {
   created_at?: number
   updated_at?: number
   started_at?: number
+  /**
+   * Planned start of a scheduled Space
+   */
+  scheduled_start?: number
   ended_at?: string
   disallow_join?: boolean
   narrow_cast_space_type?: number
@@ -105,11 +113,30 @@ export interface AudioSpaceParticipants {
   listeners: AudioSpaceParticipant[]
 }
 
+export type SpaceParticipantRole = 'host' | 'co-host' | 'speaker' | 'listener'
+
+/**
+ * Tracked user found in a Space, with the highest role seen
+ */
+export interface SpaceTrackedParticipant {
+  username: string
+  role: SpaceParticipantRole
+}
+
 export interface AudioSpace {
   metadata: AudioSpaceMetadata
   participants: AudioSpaceParticipants
   sharings?: any
   detected_phrases: CaptionPhrase[]
+  recording_integrity?: RecordingIntegrity
+  /**
+   * Audio clips around keyword hits
+   */
+  clip_files?: string[]
+  /**
+   * Tracked users in the Space, highest role first
+   */
+  tracked_participants?: SpaceTrackedParticipant[]
 }
 
 export interface LiveVideoStreamStatus {
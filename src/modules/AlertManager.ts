@@ -0,0 +1,208 @@
+import axios from 'axios'
+import {
+  appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync,
+} from 'fs'
+import path from 'path'
+import winston from 'winston'
+import {
+  ALERT_CACHE_DURATION, ALERT_CONTEXT_AFTER, ALERT_CONTEXT_BEFORE, ALERT_DEDUPE_WINDOW, ALERT_FILE_NAME, ALERT_SENT_FILE_NAME,
+} from '../constants/alert.constant'
+import { LOGGER_DIR } from '../constants/logger.constant'
+import { KeywordAlert, SentAlert } from '../interfaces/Alert.interface'
+import { AlertSinkConfig } from '../interfaces/App.interface'
+import { AudioSpace, CaptionPhrase } from '../interfaces/Twitter.interface'
+import { discordWebhookLimiter } from '../Limiter'
+import { logger as baseLogger } from '../logger'
+import { SpaceUtil } from '../utils/SpaceUtil'
+import { TwitterUtil } from '../utils/TwitterUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+
+class AlertManager {
+  private logger: winston.Logger
+  private isLoaded = false
+  /**
+   * Sent alerts, used to skip the same keyword found again in overlapping live windows
+   */
+  private sentAlerts: SentAlert[] = []
+  /**
+   * Alerts being sent, not marked as sent until a sink accepts them
+   */
+  private sendingAlerts: SentAlert[] = []
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[AlertManager]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private get config() {
+    return configManager.config.alerts
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  public get file(): string {
+    return path.join(Util.getCacheDir(), ALERT_SENT_FILE_NAME)
+  }
+
+  public load() {
+    this.isLoaded = true
+    if (!existsSync(this.file)) {
+      return
+    }
+    try {
+      this.sentAlerts = JSON.parse(readFileSync(this.file, 'utf-8')) || []
+    } catch (error) {
+      this.logger.error(`load: ${error.message}`)
+    }
+  }
+
+  /**
+   * Creates an alert for every keyword hit in phrases & sends new ones to sinks.
+   * An alert is marked as sent once a sink accepted it, so a failed alert is sent again with the next phrases
+   */
+  public async process(audioSpace: AudioSpace, phrases: CaptionPhrase[], live = false): Promise<KeywordAlert[]> {
+    const { config } = this
+    if (!config || config.active === false || !config.sinks?.length) {
+      return []
+    }
+    if (!this.isLoaded) {
+      this.load()
+    }
+    this.cleanSentAlerts()
+    const alerts = this.createAlerts(audioSpace, phrases, live)
+      .filter((alert) => {
+        if (this.isDuplicate(alert)) {
+          return false
+        }
+        this.sendingAlerts.push(AlertManager.toSentAlert(alert))
+        return true
+      })
+    if (!alerts.length) {
+      return []
+    }
+    this.logger.info('New alerts', { spaceId: SpaceUtil.getId(audioSpace), keywords: alerts.map((v) => v.keyword) })
+    const results = await Promise.all(alerts.map(async (alert) => {
+      const sinks = config.sinks.filter((sink) => !sink.labels?.length || sink.labels.includes(alert.keyword))
+      const sent = await Promise.all(sinks.map((sink) => this.send(sink, alert)))
+      return !sinks.length || sent.some((v) => v)
+    }))
+    const sentAlerts = alerts.filter((alert, i) => results[i])
+    const ids = alerts.map((v) => v.id)
+    this.sendingAlerts = this.sendingAlerts.filter((v) => !ids.includes(v.id))
+    this.sentAlerts.push(...sentAlerts.map((v) => AlertManager.toSentAlert(v)))
+    this.save()
+    if (sentAlerts.length < alerts.length) {
+      this.logger.warn(`${alerts.length - sentAlerts.length} alert(s) not sent`, { spaceId: SpaceUtil.getId(audioSpace) })
+    }
+    return sentAlerts
+  }
+
+  private createAlerts(audioSpace: AudioSpace, phrases: CaptionPhrase[], live: boolean): KeywordAlert[] {
+    const before = this.config.contextBefore ?? ALERT_CONTEXT_BEFORE
+    const after = this.config.contextAfter ?? ALERT_CONTEXT_AFTER
+    const spaceId = SpaceUtil.getId(audioSpace)
+    return phrases.flatMap((phrase, i) => (phrase.matches || []).map((match) => ({
+      id: [spaceId, match.label, phrase.ts].join('-'),
+      spaceId,
+      spaceUrl: TwitterUtil.getSpaceUrl(spaceId),
+      title: SpaceUtil.getTitle(audioSpace),
+      username: SpaceUtil.getHostUsername(audioSpace),
+      live,
+      keyword: match.label,
+      matcher: match.matcher,
+      confidence: match.confidence,
+      ts: phrase.ts,
+      phrase,
+      context: {
+        before: phrases.slice(Math.max(0, i - before), i),
+        after: phrases.slice(i + 1, i + 1 + after),
+      },
+      createdAt: Date.now(),
+    })))
+  }
+
+  private isDuplicate(alert: KeywordAlert): boolean {
+    const window = this.config.dedupeWindow ?? ALERT_DEDUPE_WINDOW
+    return [...this.sentAlerts, ...this.sendingAlerts].some((v) => v.spaceId === alert.spaceId
+      && v.keyword === alert.keyword
+      && Math.abs(v.ts - alert.ts) < window)
+  }
+
+  private cleanSentAlerts() {
+    const minCreatedAt = Date.now() - ALERT_CACHE_DURATION
+    this.sentAlerts = this.sentAlerts.filter((v) => v.createdAt >= minCreatedAt)
+  }
+
+  private save() {
+    try {
+      Util.createCacheDir()
+      const tmpFile = `${this.file}.tmp`
+      writeFileSync(tmpFile, JSON.stringify(this.sentAlerts))
+      renameSync(tmpFile, this.file)
+    } catch (error) {
+      this.logger.error(`save: ${error.message}`)
+    }
+  }
+
+  /**
+   * Resolves with whether the sink accepted the alert
+   */
+  private async send(sink: AlertSinkConfig, alert: KeywordAlert): Promise<boolean> {
+    try {
+      switch (sink.type) {
+        case 'discord':
+          await discordWebhookLimiter.schedule(() => axios.post(sink.url, AlertManager.getDiscordPayload(alert)))
+          break
+        case 'http':
+          await axios.post(sink.url, alert)
+          break
+        case 'file': {
+          const file = sink.file || path.join(LOGGER_DIR, ALERT_FILE_NAME)
+          mkdirSync(path.dirname(file), { recursive: true })
+          appendFileSync(file, `${JSON.stringify(alert)}\n`)
+          break
+        }
+        default:
+          return false
+      }
+      return true
+    } catch (error) {
+      this.logger.error(`send: ${error.message}`, { type: sink.type, alertId: alert.id })
+      return false
+    }
+  }
+
+  private static toSentAlert(alert: KeywordAlert): SentAlert {
+    const {
+      id, spaceId, keyword, ts, createdAt,
+    } = alert
+    return {
+      id, spaceId, keyword, ts, createdAt,
+    }
+  }
+
+  private static getDiscordPayload(alert: KeywordAlert) {
+    const formatPhrase = (phrase: CaptionPhrase) => `\`${Util.getDisplayTime(phrase.ts)}\` ${phrase.text}`
+    const lines = [
+      ...alert.context.before.map(formatPhrase),
+      `**${formatPhrase(alert.phrase)}**`,
+      ...alert.context.after.map(formatPhrase),
+    ]
+    return {
+      embeds: [{
+        type: 'rich',
+        title: `🔔 ${alert.keyword}`,
+        url: alert.spaceUrl,
+        description: lines.join('\n').substring(0, 4096),
+        fields: [
+          { name: 'Space', value: `[${alert.title || alert.spaceId}](${alert.spaceUrl})`, inline: true },
+          { name: 'Host', value: `[@${alert.username}](${TwitterUtil.getUserUrl(alert.username)})`, inline: true },
+          { name: 'At', value: `${Util.getDisplayTime(alert.ts)}${alert.live ? ' (live)' : ''}`, inline: true },
+        ],
+        footer: { text: `${alert.matcher} (${Math.round(alert.confidence * 100)}%)` },
+      }],
+    }
+  }
+}
+
+export const alertManager = new AlertManager()
@@ -0,0 +1,112 @@
+import { existsSync, writeFileSync } from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { AudioClip } from '../interfaces/Audio.interface'
+import { Keyword } from '../interfaces/Keyword.interface'
+import { logger as baseLogger } from '../logger'
+import { CaptionUtil } from '../utils/CaptionUtil'
+import { EncodingUtil } from '../utils/EncodingUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+
+/**
+ * Cuts clips of a recording, each clip is written next to it with its captions snippet.
+ * Times are on the audio timeline, like its captions file
+ */
+export class AudioClipper {
+  private logger: winston.Logger
+
+  constructor(
+    private readonly audioFile: string,
+    private readonly captionsFile?: string,
+  ) {
+    this.logger = baseLogger.child({ label: `[AudioClipper] [${path.basename(audioFile)}]` })
+  }
+
+  /**
+   * Pads hits & merges the ones that overlap
+   */
+  public static getClips(hits: AudioClip[], padding = 0, duration = Infinity): AudioClip[] {
+    const clips: AudioClip[] = []
+    hits
+      .map((hit) => ({
+        start: Math.max(0, hit.start - padding),
+        end: Math.min(duration, hit.end + padding),
+        labels: hit.labels,
+      }))
+      .sort((a, b) => a.start - b.start)
+      .forEach((clip) => {
+        const last = clips[clips.length - 1]
+        if (last && clip.start <= last.end) {
+          last.end = Math.max(last.end, clip.end)
+          last.labels = [...new Set([...last.labels, ...clip.labels])]
+          return
+        }
+        clips.push({ ...clip, labels: [...new Set(clip.labels)] })
+      })
+    return clips.filter((v) => v.end > v.start)
+  }
+
+  /**
+   * Captions with keyword matches
+   */
+  public getHits(keywords: Keyword[]): AudioClip[] {
+    if (!this.captionsFile || !existsSync(this.captionsFile)) {
+      return []
+    }
+    return CaptionUtil.parseFile(this.captionsFile)
+      .map((cue) => ({ cue, phrase: CaptionUtil.toPhrase(cue, keywords) }))
+      .filter(({ phrase }) => phrase.matches.length)
+      .map(({ cue, phrase }) => ({ start: cue.start, end: cue.end, labels: phrase.matches.map((v) => v.label) }))
+  }
+
+  /**
+   * `<name>.clip-<n>.<ext>`, n starts at 1
+   */
+  public getClipFile(index: number, ext = path.extname(this.audioFile)): string {
+    const name = this.audioFile.slice(0, -path.extname(this.audioFile).length)
+    return `${name}.clip-${index + 1}${ext}`
+  }
+
+  /**
+   * Writes clips (audio is stream copied) & resolves with their audio files
+   */
+  public async cut(clips: AudioClip[]): Promise<string[]> {
+    const cues = this.captionsFile && existsSync(this.captionsFile)
+      ? CaptionUtil.parseFile(this.captionsFile)
+      : []
+    const files: string[] = []
+    // eslint-disable-next-line no-restricted-syntax
+    for (const [i, clip] of clips.entries()) {
+      const file = this.getClipFile(i)
+      // eslint-disable-next-line no-await-in-loop
+      await ProcessUtil.run('ffmpeg', [
+        '-y',
+        '-ss', String(clip.start / 1000),
+        '-to', String(clip.end / 1000),
+        '-i', this.audioFile,
+        '-map', '0:a',
+        '-c:a', 'copy',
+        '-f', EncodingUtil.getMuxer(file),
+        file,
+      ])
+      files.push(file)
+      const snippet = cues
+        .filter((cue) => cue.end > clip.start && cue.start < clip.end)
+        .map((cue) => ({
+          ...cue,
+          start: Math.max(0, cue.start - clip.start),
+          end: Math.min(clip.end, cue.end) - clip.start,
+        }))
+      if (snippet.length) {
+        writeFileSync(this.getClipFile(i, '.vtt'), CaptionUtil.toVtt(snippet))
+      }
+      this.logger.info(`Clip ${i + 1} written`, {
+        from: Util.getDisplayTime(clip.start),
+        to: Util.getDisplayTime(clip.end),
+        labels: clip.labels,
+      })
+    }
+    return files
+  }
+}
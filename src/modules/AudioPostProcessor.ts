@@ -0,0 +1,156 @@
+import { existsSync, renameSync, unlinkSync } from 'fs'
+import winston from 'winston'
+import {
+  APP_POST_PROCESS_LOUDNESS, APP_POST_PROCESS_MIN_SILENCE, APP_POST_PROCESS_SILENCE_THRESHOLD,
+} from '../constants/app.constant'
+import { AudioPostProcessOptions, AudioSegment } from '../interfaces/Audio.interface'
+import { logger as baseLogger } from '../logger'
+import { EncodingUtil } from '../utils/EncodingUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { HlsDownloader } from './HlsDownloader'
+
+export interface AudioPostProcessOutput {
+  file: string
+  /**
+   * Encoding args, stream copy is not possible as audio is filtered
+   */
+  args: string[]
+}
+
+/**
+ * Normalizes loudness & removes silences of a recording.
+ * Outputs are written from the source, which is kept if configured
+ */
+export class AudioPostProcessor {
+  private logger: winston.Logger
+
+  constructor(
+    private readonly source: string,
+    private readonly options: AudioPostProcessOptions = {},
+  ) {
+    this.logger = baseLogger.child({ label: '[AudioPostProcessor]' })
+  }
+
+  public static isEnabled(options: AudioPostProcessOptions = {}): boolean {
+    return !!(options.normalize || options.trimSilence || options.maxSilence > 0)
+  }
+
+  private get removesSilences(): boolean {
+    return !!(this.options.trimSilence || this.options.maxSilence > 0)
+  }
+
+  /**
+   * Writes outputs & resolves with the segments (ms) removed from the source
+   */
+  public async process(outputs: AudioPostProcessOutput[]): Promise<AudioSegment[]> {
+    const time = Date.now()
+    let removedSegments: AudioSegment[] = []
+    if (this.removesSilences) {
+      const duration = await HlsDownloader.probeDuration(this.source)
+      removedSegments = this.getRemovedSegments(await this.detectSilences(), duration)
+    }
+    const filters = this.getFilters(removedSegments)
+    // eslint-disable-next-line no-restricted-syntax
+    for (const output of outputs) {
+      const tmpFile = `${output.file}.tmp`
+      const args = [
+        '-y', '-i', this.source,
+        ...(filters.length ? ['-af', filters.join(',')] : []),
+        ...output.args,
+        // extension of the tmp file can not tell the format
+        '-f', EncodingUtil.getMuxer(output.file),
+        tmpFile,
+      ]
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await ProcessUtil.run('ffmpeg', args)
+        renameSync(tmpFile, output.file)
+      } finally {
+        if (existsSync(tmpFile)) {
+          unlinkSync(tmpFile)
+        }
+      }
+    }
+    const removed = removedSegments.reduce((sum, v) => sum + v.end - v.start, 0)
+    this.logger.info(`Processed ${outputs.length} output(s) in ${Math.round((Date.now() - time) / 100) / 10}s`, {
+      normalize: !!this.options.normalize,
+      segments: removedSegments.length,
+      removed,
+    })
+    return removedSegments
+  }
+
+  /**
+   * Silences (ms) of the source, a silence lasting until the end has no end
+   */
+  public async detectSilences(): Promise<Partial<AudioSegment>[]> {
+    const threshold = this.options.silenceThreshold ?? APP_POST_PROCESS_SILENCE_THRESHOLD
+    const minDuration = Math.min(APP_POST_PROCESS_MIN_SILENCE, this.options.maxSilence || Infinity) / 1000
+    const silences: Partial<AudioSegment>[] = []
+    let line = ''
+    const parseLine = (value: string) => {
+      const start = /silence_start: (-?[\d.]+)/.exec(value)
+      const end = /silence_end: ([\d.]+)/.exec(value)
+      if (start) {
+        silences.push({ start: Math.max(0, Math.round(Number(start[1]) * 1000)) })
+      }
+      if (end && silences.length) {
+        silences[silences.length - 1].end = Math.round(Number(end[1]) * 1000)
+      }
+    }
+    // silencedetect logs every silence, more than the stderr tail can hold
+    await ProcessUtil.run(
+      'ffmpeg',
+      ['-i', this.source, '-af', `silencedetect=noise=${threshold}dB:d=${minDuration}`, '-f', 'null', '-'],
+      undefined,
+      (data) => {
+        const lines = (line + data).split(/\r?\n/)
+        line = lines.pop()
+        lines.forEach(parseLine)
+      },
+    )
+    parseLine(line)
+    return silences
+  }
+
+  /**
+   * Leading & trailing silences when trimming,
+   * middle silences longer than max silence are shortened to it, keeping both ends
+   */
+  public getRemovedSegments(silences: Partial<AudioSegment>[], duration: number): AudioSegment[] {
+    const { trimSilence, maxSilence } = this.options
+    const segments: AudioSegment[] = []
+    silences.forEach((silence) => {
+      const { start } = silence
+      const end = Math.min(silence.end ?? duration, duration)
+      if (trimSilence && start === 0) {
+        segments.push({ start, end })
+        return
+      }
+      if (trimSilence && end >= duration) {
+        segments.push({ start, end: duration })
+        return
+      }
+      if (maxSilence > 0 && end - start > maxSilence) {
+        segments.push({ start: start + Math.floor(maxSilence / 2), end: end - Math.ceil(maxSilence / 2) })
+      }
+    })
+    return segments.filter((v) => v.end > v.start)
+  }
+
+  private getFilters(removedSegments: AudioSegment[]): string[] {
+    const filters: string[] = []
+    if (removedSegments.length) {
+      const expression = removedSegments
+        .map((v) => `between(t,${v.start / 1000},${v.end / 1000})`)
+        .join('+')
+      filters.push(`aselect='not(${expression})'`, 'asetpts=N/SR/TB')
+    }
+    if (this.options.normalize) {
+      const loudness = this.options.loudness ?? APP_POST_PROCESS_LOUDNESS
+      // loudnorm upsamples to 192kHz
+      filters.push(`loudnorm=I=${loudness}:TP=-1.5:LRA=11`, 'aresample=48000')
+    }
+    return filters
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  existsSync, renameSync, unlinkSync, writeFileSync,
+} from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { APP_CHAPTER_MERGE_WINDOW } from '../constants/app.constant'
+import { ENCODING_COVER_FORMATS } from '../constants/encoding.constant'
+import { AudioChapter, AudioSegment } from '../interfaces/Audio.interface'
+import { CaptionPhrase } from '../interfaces/Twitter.interface'
+import { Downloader } from '../Downloader'
+import { logger as baseLogger } from '../logger'
+import { CaptionUtil } from '../utils/CaptionUtil'
+import { EncodingUtil } from '../utils/EncodingUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+
+/**
+ * Embeds cover art & chapter markers into recordings, audio is stream copied
+ */
+export class AudioTagger {
+  private logger: winston.Logger
+
+  constructor(
+    private readonly coverUrl?: string,
+    private readonly chapters: AudioChapter[] = [],
+  ) {
+    this.logger = baseLogger.child({ label: '[AudioTagger]' })
+  }
+
+  /**
+   * Chapters at keyword hits (Space timeline) of post-processed audio,
+   * consecutive hits of the same keywords are merged
+   */
+  public static getChapters(phrases: CaptionPhrase[], duration: number, removedSegments: AudioSegment[] = []): AudioChapter[] {
+    const chapters: AudioChapter[] = []
+    phrases
+      .filter((phrase) => phrase.matches?.length)
+      .forEach((phrase) => {
+        const title = [...new Set(phrase.matches.map((v) => v.label))].join(', ')
+        const start = CaptionUtil.toProcessedTime(phrase.ts, removedSegments)
+        const last = chapters[chapters.length - 1]
+        if (last && last.title === title && start - last.start <= APP_CHAPTER_MERGE_WINDOW) {
+          return
+        }
+        chapters.push({ start, end: duration, title })
+      })
+    chapters.forEach((chapter, i) => Object.assign(chapter, { end: chapters[i + 1]?.start ?? duration }))
+    return chapters.filter((v) => v.end > v.start)
+  }
+
+  /**
+   * Rewrites each file with cover art (if its format supports it) & chapters,
+   * a cover that can not be downloaded is skipped
+   */
+  public async tag(files: string[]): Promise<void> {
+    const coverFile = await this.downloadCover()
+    const metadataFile = this.writeChapters(files[0])
+    try {
+      // eslint-disable-next-line no-restricted-syntax
+      for (const file of files) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.tagFile(file, coverFile, metadataFile)
+      }
+    } finally {
+      if (metadataFile && existsSync(metadataFile)) {
+        unlinkSync(metadataFile)
+      }
+    }
+    this.logger.info(`Tagged ${files.length} file(s)`, { cover: !!coverFile, chapters: this.chapters.length })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private async tagFile(file: string, coverFile: string, metadataFile: string) {
+    const hasCover = !!coverFile && ENCODING_COVER_FORMATS.includes(path.extname(file).slice(1))
+    const inputs = ['-i', file]
+    const maps = ['-map', '0:a', '-map_metadata', '0']
+    if (hasCover) {
+      inputs.push('-i', coverFile)
+      maps.push('-map', '1:v', '-c:v', 'copy', '-disposition:v', 'attached_pic')
+    }
+    if (hasCover && file.endsWith('.mp3')) {
+      // ID3v2.4 pictures are not shown by some players
+      maps.push('-id3v2_version', '3')
+    }
+    if (metadataFile) {
+      inputs.push('-f', 'ffmetadata', '-i', metadataFile)
+      maps.push('-map_chapters', String(hasCover ? 2 : 1))
+    }
+    const tmpFile = `${file}.tmp`
+    try {
+      await ProcessUtil.run('ffmpeg', ['-y', ...inputs, ...maps, '-c:a', 'copy', '-f', EncodingUtil.getMuxer(file), tmpFile])
+      renameSync(tmpFile, file)
+    } finally {
+      if (existsSync(tmpFile)) {
+        unlinkSync(tmpFile)
+      }
+    }
+  }
+
+  /**
+   * Cached like notification icons
+   */
+  private async downloadCover(): Promise<string> {
+    if (!this.coverUrl) {
+      return null
+    }
+    try {
+      const imgPathname = this.coverUrl.replace(/^https?:\/\/[^/]+\//, '')
+      Util.createCacheDir(path.dirname(imgPathname))
+      const imgPath = path.join(Util.getCacheDir(), imgPathname)
+      if (!existsSync(imgPath)) {
+        await Downloader.downloadImage(this.coverUrl, imgPath)
+      }
+      return imgPath
+    } catch (error) {
+      this.logger.warn(`Failed to download cover: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * Writes chapters as ffmetadata next to the file
+   */
+  private writeChapters(file: string): string {
+    if (!this.chapters.length) {
+      return null
+    }
+    const escape = (value: string) => value.replace(/[=;#\\\n]/g, (c) => `\\${c}`)
+    const lines = [';FFMETADATA1']
+    this.chapters.forEach((chapter) => {
+      lines.push('[CHAPTER]', 'TIMEBASE=1/1000', `START=${chapter.start}`, `END=${chapter.end}`, `title=${escape(chapter.title)}`)
+    })
+    const metadataFile = `${file}.chapters.txt`
+    writeFileSync(metadataFile, `${lines.join('\n')}\n`)
+    return metadataFile
+  }
+}
@@ -1,41 +1,223 @@
 import { program } from 'commander'
-import { readFileSync } from 'fs'
+import EventEmitter from 'events'
+import { readFileSync, watchFile } from 'fs'
 import yaml from 'js-yaml'
 import winston from 'winston'
 import { TwitterApi } from '../apis/TwitterApi'
+import {
+  APP_CLIP_PADDING,
+  APP_CONFIG_WATCH_INTERVAL,
+  APP_DIRECTORY_TEMPLATE,
+  APP_FILENAME_TEMPLATE,
+  APP_POST_PROCESS_LOUDNESS,
+  APP_POST_PROCESS_SILENCE_THRESHOLD,
+  APP_TRANSCRIBE_LIVE_MODEL,
+  APP_TRANSCRIBE_MODEL,
+  APP_USER_REFRESH_INTERVAL,
+} from '../constants/app.constant'
+import { ENCODING_DEFAULT_PROFILE, ENCODING_PROFILES } from '../constants/encoding.constant'
 import { TWITTER_GUEST_TOKEN_DURATION } from '../constants/twitter.constant'
-import { Config } from '../interfaces/App.interface'
+import {
+  CategoryConfig, Config, UserConfig, UserOptions,
+} from '../interfaces/App.interface'
+import { EncodingProfile } from '../interfaces/Encoding.interface'
+import { SchemaError } from '../interfaces/Schema.interface'
 import { twitterGuestTokenLimiter } from '../Limiter'
 import { logger as baseLogger } from '../logger'
+import { configSchema } from '../schemas/config.schema'
+import { ConfigUtil } from '../utils/ConfigUtil'
+import { SchemaUtil } from '../utils/SchemaUtil'
 
-class ConfigManager {
+class ConfigManager extends EventEmitter {
   public config: Config
+  public errors: SchemaError[] = []
   public guestToken: string
   public guestTokenTime: number
 
   private logger: winston.Logger
+  private isWatching = false
 
   constructor() {
+    super()
     this.logger = baseLogger.child({ label: '[ConfigManager]' })
     this.config = {}
   }
 
+  // eslint-disable-next-line class-methods-use-this
+  public get configPath(): string {
+    return program.getOptionValue('config')
+  }
+
+  public get isValid(): boolean {
+    return !this.errors.length
+  }
+
+  /**
+   * Loads the config file, the current config is kept if the file can not be parsed or is invalid
+   */
   public load() {
-    const configPath = program.getOptionValue('config') as string
+    const { configPath } = this
     if (!configPath) {
       return this.config
     }
-    try {
-      const payload = readFileSync(configPath, 'utf-8')
-      if (configPath.endsWith('yaml')) {
-        this.config = yaml.load(payload)
-      } else {
-        this.config = JSON.parse(payload)
+    const { config, errors } = this.read(configPath)
+    this.errors = errors
+    if (errors.length) {
+      errors.forEach((error) => this.logger.error(`load: ${SchemaUtil.formatError(error)}`))
+      return this.config
+    }
+    this.config = config
+    return this.config
+  }
+
+  /**
+   * Watches the config file & reloads it on change, emits `change` with the new & previous config.
+   * A persistent watcher keeps the process running, e.g. in user mode without any user yet
+   */
+  public watch(persistent = false) {
+    const { configPath } = this
+    if (!configPath || this.isWatching) {
+      return
+    }
+    this.isWatching = true
+    this.logger.debug('Watching config file', { configPath, persistent })
+    watchFile(configPath, { interval: APP_CONFIG_WATCH_INTERVAL, persistent }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) {
+        return
       }
+      this.reload()
+    })
+  }
+
+  public reload() {
+    const { config, errors } = this.read(this.configPath)
+    if (errors.length) {
+      errors.forEach((error) => this.logger.error(`reload: ${SchemaUtil.formatError(error)}`))
+      this.logger.warn('reload: Config invalid, keeping previous config')
+      return
+    }
+    const prevConfig = this.config
+    const changes = ConfigUtil.diff(prevConfig, config)
+    if (!changes.length) {
+      this.logger.debug('reload: Config unchanged')
+      return
+    }
+    this.config = config
+    this.logger.info('reload: Config changed', { changes })
+    this.emit('change', config, prevConfig)
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  public read(configPath: string): { config: Config, errors: SchemaError[] } {
+    let payload: string
+    try {
+      payload = readFileSync(configPath, 'utf-8')
     } catch (error) {
-      this.logger.warn(`load: ${error.message}`)
+      return { config: null, errors: [{ path: [], message: error.message }] }
     }
-    return this.config
+
+    const isYaml = ConfigUtil.isYamlPath(configPath)
+    let config: Config
+    try {
+      config = (isYaml ? yaml.load(payload) : JSON.parse(payload)) || {}
+    } catch (error) {
+      const line = ConfigUtil.getParseErrorLine(payload, error)
+      return { config: null, errors: [{ path: [], message: error.reason || error.message, line }] }
+    }
+
+    const errors = SchemaUtil.validate(configSchema, config)
+      .map((error) => ({ ...error, line: ConfigUtil.getLine(payload, isYaml, error.path) }))
+    return { config, errors }
+  }
+
+  public getUserConfig(username: string): UserConfig {
+    return (this.config.users || []).find((v) => v.username?.toLowerCase() === username?.toLowerCase())
+  }
+
+  public getCategoryConfig(name: string): CategoryConfig {
+    return (this.config.categories || []).find((v) => v.name?.toLowerCase() === name?.toLowerCase())
+  }
+
+  /**
+   * Returns the options of a user, resolved from user > category > global > default
+   */
+  public getUserOptions(username?: string): UserOptions {
+    const userConfig = this.getUserConfig(username) || {} as UserConfig
+    const categoryConfig = this.getCategoryConfig(userConfig.category) || {} as CategoryConfig
+    const sources: UserOptions[] = [userConfig, categoryConfig, this.config]
+    const pick = <K extends keyof UserOptions>(key: K) => sources.map((v) => v[key]).find((v) => v !== undefined)
+    const pickTranscribe = <K extends keyof UserOptions['transcribe']>(key: K) => sources.map((v) => v.transcribe?.[key]).find((v) => v !== undefined)
+    const pickAudio = <K extends keyof UserOptions['audio']>(key: K) => sources.map((v) => v.audio?.[key]).find((v) => v !== undefined)
+    const pickPostProcess = <K extends keyof UserOptions['postProcess']>(key: K) => sources.map((v) => v.postProcess?.[key]).find((v) => v !== undefined)
+    const pickClips = <K extends keyof UserOptions['clips']>(key: K) => sources.map((v) => v.clips?.[key]).find((v) => v !== undefined)
+    const pickGuest = <K extends keyof UserOptions['guest']>(key: K) => sources.map((v) => v.guest?.[key]).find((v) => v !== undefined)
+    const profiles = pickAudio('profiles') ?? [ENCODING_DEFAULT_PROFILE]
+    return {
+      interval: pick('interval') ?? APP_USER_REFRESH_INTERVAL,
+      record: pick('record') ?? true,
+      transcribe: {
+        enabled: pickTranscribe('enabled') ?? true,
+        model: pickTranscribe('model') ?? APP_TRANSCRIBE_MODEL,
+        liveModel: pickTranscribe('liveModel') ?? APP_TRANSCRIBE_LIVE_MODEL,
+        backend: pickTranscribe('backend') ?? 'whisper',
+        binary: pickTranscribe('binary'),
+        language: pickTranscribe('language'),
+        threads: pickTranscribe('threads'),
+        args: pickTranscribe('args'),
+        url: pickTranscribe('url'),
+      },
+      audio: {
+        profiles,
+        transcribe: pickAudio('transcribe') ?? profiles[0],
+        webhook: pickAudio('webhook') ?? profiles[0],
+        coverArt: pickAudio('coverArt') ?? 'avatar',
+        chapters: pickAudio('chapters') ?? true,
+      },
+      postProcess: {
+        normalize: pickPostProcess('normalize') ?? false,
+        loudness: pickPostProcess('loudness') ?? APP_POST_PROCESS_LOUDNESS,
+        trimSilence: pickPostProcess('trimSilence') ?? false,
+        maxSilence: pickPostProcess('maxSilence') ?? 0,
+        silenceThreshold: pickPostProcess('silenceThreshold') ?? APP_POST_PROCESS_SILENCE_THRESHOLD,
+        keepOriginal: pickPostProcess('keepOriginal') ?? false,
+      },
+      clips: {
+        enabled: pickClips('enabled') ?? false,
+        padding: pickClips('padding') ?? APP_CLIP_PADDING,
+        webhook: pickClips('webhook') ?? false,
+      },
+      guest: {
+        record: pickGuest('record') ?? true,
+        webhook: pickGuest('webhook') ?? true,
+        roles: pickGuest('roles') ?? ['co-host', 'speaker', 'listener'],
+      },
+      filenameTemplate: pick('filenameTemplate') ?? APP_FILENAME_TEMPLATE,
+      directoryTemplate: pick('directoryTemplate') ?? APP_DIRECTORY_TEMPLATE,
+      webhookIds: pick('webhookIds'),
+      dictionaries: pick('dictionaries'),
+      priority: pick('priority') ?? 0,
+    }
+  }
+
+  public getEncodingProfile(name: string): EncodingProfile {
+    return [...(this.config.encodingProfiles || []), ...ENCODING_PROFILES].find((v) => v.name === name)
+  }
+
+  /**
+   * Returns profiles of names, unknown names are skipped, default profile if none is found
+   */
+  public getEncodingProfiles(names: string[]): EncodingProfile[] {
+    const profiles = names
+      .filter((name, i) => names.indexOf(name) === i)
+      .map((name) => {
+        const profile = this.getEncodingProfile(name)
+        if (!profile) {
+          this.logger.warn(`Unknown encoding profile: ${name}`)
+        }
+        return profile
+      })
+      .filter((v) => v)
+    return profiles.length ? profiles : [this.getEncodingProfile(ENCODING_DEFAULT_PROFILE)]
   }
 
   public async getGuestToken(forceRefresh = false) {
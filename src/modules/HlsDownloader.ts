@@ -0,0 +1,395 @@
+import axios from 'axios'
+import EventEmitter from 'events'
+import {
+  existsSync, readFileSync, renameSync, writeFileSync,
+} from 'fs'
+import {
+  appendFile, mkdir, readFile, rename, rm, stat, writeFile,
+} from 'fs/promises'
+import path from 'path'
+import winston from 'winston'
+import { PeriscopeApi } from '../apis/PeriscopeApi'
+import {
+  HLS_CHUNK_CONCURRENCY,
+  HLS_CHUNK_MAX_RETRY,
+  HLS_CHUNK_RETRY_DELAY,
+  HLS_CHUNK_TIMEOUT,
+  HLS_DURATION_TOLERANCE_MIN,
+  HLS_DURATION_TOLERANCE_RATIO,
+  HLS_MANIFEST_EXT,
+  HLS_MANIFEST_SAVE_INTERVAL,
+} from '../constants/hls.constant'
+import {
+  HlsDownloaderOptions, HlsOutput, HlsProgress, RecordingIntegrity, RecordingIntegrityStatus, RecordingManifest,
+} from '../interfaces/Hls.interface'
+import { PlaylistChunk } from '../interfaces/Periscope.interface'
+import { logger as baseLogger } from '../logger'
+import { PeriscopeUtil } from '../utils/PeriscopeUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+
+/**
+ * Downloads AAC chunks of the final playlist, joins them & remuxes/transcodes the result with ffmpeg.
+ * Fetched chunks are tracked in a manifest next to the audio, so an interrupted download can be resumed.
+ * Emits `progress` after each chunk
+ */
+export class HlsDownloader extends EventEmitter {
+  /**
+   * Output files being downloaded, the same recording is never downloaded twice at once
+   */
+  private static activeFiles = new Set<string>()
+
+  private logger: winston.Logger
+  private manifest: RecordingManifest
+  private manifestSavedAt = 0
+
+  constructor(
+    private readonly playlistUrl: string,
+    private readonly outputFile: string,
+    private readonly options: HlsDownloaderOptions = {},
+  ) {
+    super()
+    this.logger = baseLogger.child({ label: `[HlsDownloader] [${path.basename(outputFile)}]` })
+  }
+
+  private get outputBase(): string {
+    const { dir, name } = path.parse(this.outputFile)
+    return path.join(dir, name)
+  }
+
+  /**
+   * Downloaded chunks, removed once the output is written
+   */
+  public get chunkDir(): string {
+    return `${this.outputBase}.chunks`
+  }
+
+  public get manifestFile(): string {
+    return HlsDownloader.getManifestFile(this.outputFile)
+  }
+
+  public static getManifestFile(outputFile: string): string {
+    const { dir, name } = path.parse(outputFile)
+    return path.join(dir, name + HLS_MANIFEST_EXT)
+  }
+
+  /**
+   * Joined chunks, the audio as served before any encoding
+   */
+  public static getRawFile(outputFile: string): string {
+    const { dir, name } = path.parse(outputFile)
+    return path.join(dir, `${name}.aac`)
+  }
+
+  public static readManifest(manifestFile: string): RecordingManifest {
+    return JSON.parse(readFileSync(manifestFile, 'utf-8'))
+  }
+
+  /**
+   * Creates a downloader that resumes the recording of a manifest
+   */
+  public static fromManifest(manifestFile: string): HlsDownloader {
+    const manifest = this.readManifest(manifestFile)
+    const outputFile = path.join(path.dirname(manifestFile), manifest.audioFile)
+    return new HlsDownloader(manifest.playlistUrl, outputFile, manifest.options)
+  }
+
+  /**
+   * Resolves with the integrity of the recording once the output is written
+   */
+  public async download(): Promise<RecordingIntegrity> {
+    if (HlsDownloader.activeFiles.has(this.outputFile)) {
+      throw new Error('Recording is already being downloaded')
+    }
+    HlsDownloader.activeFiles.add(this.outputFile)
+    try {
+      return await this.downloadChunks()
+    } finally {
+      HlsDownloader.activeFiles.delete(this.outputFile)
+    }
+  }
+
+  private async downloadChunks(): Promise<RecordingIntegrity> {
+    const playlistUrl = await PeriscopeApi.getFinalPlaylistUrl(this.playlistUrl)
+    let chunks = await this.getChunks(playlistUrl)
+    if (!chunks.length) {
+      throw new Error('No chunks found in playlist')
+    }
+    this.logger.debug('download', { playlistUrl, chunkCount: chunks.length })
+
+    await mkdir(this.chunkDir, { recursive: true })
+    const createdAt = existsSync(this.manifestFile)
+      ? HlsDownloader.readManifest(this.manifestFile).createdAt
+      : Date.now()
+    this.manifest = {
+      playlistUrl,
+      audioFile: path.basename(this.outputFile),
+      options: {
+        metadata: this.options.metadata,
+        username: this.options.username,
+        outputArgs: this.options.outputArgs,
+        outputs: this.options.outputs,
+        expectedDuration: this.options.expectedDuration,
+        lastChunkIndex: this.options.lastChunkIndex,
+        keepRaw: this.options.keepRaw,
+      },
+      chunks: [],
+      complete: false,
+      createdAt,
+      updatedAt: Date.now(),
+    }
+    const failedIndexes = await this.fetchChunks(chunks)
+    if (failedIndexes.length) {
+      // Keep downloaded chunks, so the next attempt only fetches missing ones
+      throw new Error(`Failed to download ${failedIndexes.length}/${chunks.length} chunks: ${failedIndexes.sort((a, b) => a - b).join(',')}`)
+    }
+
+    const gaps = this.getMissingIndexes(chunks)
+    if (gaps.length) {
+      // Chunks not listed by the playlist may still be served
+      this.logger.warn(`Found ${gaps.length} missing chunks, fetching them from the chunk url pattern`, { from: gaps[0], to: gaps[gaps.length - 1] })
+      const gapChunks = HlsDownloader.getGapChunks(chunks, gaps)
+      await this.fetchChunks(gapChunks)
+      const repairedChunks = gapChunks.filter((chunk) => existsSync(this.getChunkFile(chunk)))
+      this.logger.info(`Repaired ${repairedChunks.length}/${gaps.length} missing chunks`)
+      chunks = [...chunks, ...repairedChunks]
+        .sort((a, b) => a.index - b.index)
+    }
+
+    const rawFile = HlsDownloader.getRawFile(this.outputFile)
+    await this.concat(chunks, rawFile)
+    await ProcessUtil.run('ffmpeg', ['-y', '-i', rawFile, ...this.getOutputArgs()])
+    if (!this.options.keepRaw) {
+      await rm(rawFile, { force: true })
+    }
+    await rm(this.chunkDir, { recursive: true, force: true })
+    const integrity = await this.verify(chunks, gaps)
+    Object.assign(this.manifest, { complete: true, integrity })
+    this.saveManifest(true)
+    return integrity
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private async getChunks(playlistUrl: string): Promise<PlaylistChunk[]> {
+    const data = await PeriscopeApi.getFinalPlaylist(playlistUrl)
+    return PeriscopeUtil.getPlaylistChunks(PeriscopeUtil.getChunkPrefix(playlistUrl), data)
+  }
+
+  /**
+   * Chunks of missing indexes, with the url pattern & duration of the closest chunk before them
+   */
+  private static getGapChunks(chunks: PlaylistChunk[], gaps: number[]): PlaylistChunk[] {
+    const sortedChunks = [...chunks].sort((a, b) => a.index - b.index)
+    return gaps.map((index) => {
+      const reference = [...sortedChunks].reverse().find((v) => v.index < index) || sortedChunks[0]
+      return {
+        index,
+        url: PeriscopeUtil.getChunkUrl(reference.url, index),
+        duration: reference.duration,
+      }
+    })
+  }
+
+  /**
+   * Downloads chunks with bounded concurrency, returns indexes of chunks that failed after retries
+   */
+  private async fetchChunks(chunks: PlaylistChunk[]): Promise<number[]> {
+    chunks.forEach((chunk) => {
+      const entry = {
+        index: chunk.index,
+        url: chunk.url,
+        fetched: existsSync(this.getChunkFile(chunk)),
+      }
+      const i = this.manifest.chunks.findIndex((v) => v.index === chunk.index)
+      if (i === -1) {
+        this.manifest.chunks.push(entry)
+      } else {
+        this.manifest.chunks[i] = entry
+      }
+    })
+    this.manifest.chunks.sort((a, b) => a.index - b.index)
+    this.saveManifest(true)
+    const progress: HlsProgress = {
+      total: chunks.length, downloaded: 0, failed: 0, bytes: 0,
+    }
+    const failedIndexes: number[] = []
+    await this.runWithConcurrency(chunks, async (chunk) => {
+      try {
+        progress.bytes += await this.downloadChunk(chunk)
+        progress.downloaded += 1
+        this.manifest.chunks.find((v) => v.index === chunk.index).fetched = true
+        this.saveManifest()
+      } catch (error) {
+        this.logger.warn(`Failed to download chunk ${chunk.index}: ${error.message}`)
+        progress.failed += 1
+        failedIndexes.push(chunk.index)
+      }
+      this.emit('progress', { ...progress })
+    })
+    this.saveManifest(true)
+    return failedIndexes
+  }
+
+  /**
+   * Indexes missing between the first chunk & the last chunk (or the last chunk seen live)
+   */
+  private getMissingIndexes(chunks: PlaylistChunk[]): number[] {
+    const indexes = new Set(chunks.map((v) => v.index))
+    const min = Math.min(...indexes)
+    const max = Math.max(...indexes, this.options.lastChunkIndex ?? -Infinity)
+    return Array.from({ length: max - min + 1 }, (v, i) => min + i)
+      .filter((index) => !indexes.has(index))
+  }
+
+  /**
+   * Compares the probed output duration with the Space & playlist durations
+   */
+  private async verify(chunks: PlaylistChunk[], gaps: number[]): Promise<RecordingIntegrity> {
+    const missingChunks = this.getMissingIndexes(chunks)
+    const playlistDuration = chunks.reduce((sum, v) => sum + v.duration, 0)
+    const { expectedDuration } = this.options
+    let duration: number
+    try {
+      duration = await HlsDownloader.probeDuration(this.outputFile)
+    } catch (error) {
+      this.logger.warn(`Failed to probe duration: ${error.message}`)
+    }
+    const isShort = (reference: number) => !!reference && duration !== undefined
+      && reference - duration > Math.max(HLS_DURATION_TOLERANCE_MIN, reference * HLS_DURATION_TOLERANCE_RATIO)
+    let status: RecordingIntegrityStatus = gaps.length ? 'repaired' : 'verified'
+    if (missingChunks.length || isShort(expectedDuration) || isShort(playlistDuration)) {
+      status = 'incomplete'
+    }
+    const integrity: RecordingIntegrity = {
+      status,
+      duration,
+      expectedDuration,
+      playlistDuration,
+      chunkCount: chunks.length,
+      gaps,
+      missingChunks,
+      checkedAt: Date.now(),
+    }
+    const log = status === 'incomplete' ? this.logger.warn : this.logger.info
+    log.call(this.logger, `Recording ${status}`, {
+      duration: duration === undefined ? null : Util.getDisplayTime(duration),
+      expectedDuration: expectedDuration ? Util.getDisplayTime(expectedDuration) : null,
+      chunkCount: chunks.length,
+      gapCount: gaps.length,
+      missingCount: missingChunks.length,
+    })
+    return integrity
+  }
+
+  /**
+   * Returns the duration (ms) of a media file
+   */
+  public static async probeDuration(file: string): Promise<number> {
+    const { stdout } = await ProcessUtil.run('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', file])
+    const seconds = parseFloat(stdout.trim())
+    if (Number.isNaN(seconds)) {
+      throw new Error(`Invalid duration: ${stdout.trim()}`)
+    }
+    return Math.round(seconds * 1000)
+  }
+
+  /**
+   * Saves at most once per interval unless forced
+   */
+  private saveManifest(force = false) {
+    const now = Date.now()
+    if (!force && now - this.manifestSavedAt < HLS_MANIFEST_SAVE_INTERVAL) {
+      return
+    }
+    this.manifestSavedAt = now
+    this.manifest.updatedAt = now
+    const tmpFile = `${this.manifestFile}.tmp`
+    writeFileSync(tmpFile, JSON.stringify(this.manifest, null, 2))
+    renameSync(tmpFile, this.manifestFile)
+  }
+
+  private getChunkFile(chunk: PlaylistChunk): string {
+    return path.join(this.chunkDir, `${chunk.index}.aac`)
+  }
+
+  /**
+   * Returns chunk size, chunks already on disk are not downloaded again
+   */
+  private async downloadChunk(chunk: PlaylistChunk): Promise<number> {
+    const file = this.getChunkFile(chunk)
+    if (existsSync(file)) {
+      return (await stat(file)).size
+    }
+    const retries = this.options.retries ?? HLS_CHUNK_MAX_RETRY
+    const retryDelay = this.options.retryDelay ?? HLS_CHUNK_RETRY_DELAY
+    let attempt = 0
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      attempt += 1
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const { data } = await axios.get<ArrayBuffer>(chunk.url, { responseType: 'arraybuffer', timeout: HLS_CHUNK_TIMEOUT })
+        const buffer = Buffer.from(data)
+        // Write then rename, so an interrupted write is not taken as a downloaded chunk
+        // eslint-disable-next-line no-await-in-loop
+        await writeFile(`${file}.tmp`, buffer)
+        // eslint-disable-next-line no-await-in-loop
+        await rename(`${file}.tmp`, file)
+        return buffer.length
+      } catch (error) {
+        if (attempt > retries) {
+          throw error
+        }
+        const delay = retryDelay * attempt
+        this.logger.debug(`Retry chunk ${chunk.index} in ${delay}ms (${attempt}/${retries}): ${error.message}`)
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => { setTimeout(resolve, delay) })
+      }
+    }
+  }
+
+  private async runWithConcurrency(chunks: PlaylistChunk[], fn: (chunk: PlaylistChunk) => Promise<void>) {
+    const concurrency = this.options.concurrency || HLS_CHUNK_CONCURRENCY
+    let i = 0
+    const worker = async () => {
+      while (i < chunks.length) {
+        const chunk = chunks[i]
+        i += 1
+        // eslint-disable-next-line no-await-in-loop
+        await fn(chunk)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, () => worker()))
+  }
+
+  /**
+   * Chunks are ADTS streams, they can be joined as is
+   */
+  private async concat(chunks: PlaylistChunk[], file: string) {
+    await writeFile(file, Buffer.alloc(0))
+    // eslint-disable-next-line no-restricted-syntax
+    for (const chunk of [...chunks].sort((a, b) => a.index - b.index)) {
+      // eslint-disable-next-line no-await-in-loop
+      await appendFile(file, await readFile(this.getChunkFile(chunk)))
+    }
+  }
+
+  /**
+   * Arguments of every output, ffmpeg encodes all of them in one pass
+   */
+  private getOutputArgs(): string[] {
+    const metadataArgs = []
+    Object.entries(this.options.metadata || {})
+      .filter(([, value]) => value)
+      .forEach(([key, value]) => metadataArgs.push('-metadata', `${key}=${value}`))
+    const outputs: HlsOutput[] = [
+      { file: path.basename(this.outputFile), args: this.options.outputArgs },
+      ...(this.options.outputs || []),
+    ]
+    return outputs.flatMap((output) => [
+      ...metadataArgs,
+      ...(output.args || []),
+      path.join(path.dirname(this.outputFile), output.file),
+    ])
+  }
+}
@@ -0,0 +1,119 @@
+import { readFileSync, unwatchFile, watchFile } from 'fs'
+import yaml from 'js-yaml'
+import path from 'path'
+import winston from 'winston'
+import { APP_CONFIG_WATCH_INTERVAL } from '../constants/app.constant'
+import { KEYWORD_DEFAULT_DICTIONARY_FILE, KEYWORD_DEFAULT_DICTIONARY_NAME } from '../constants/keyword.constant'
+import { KeywordDictionaryConfig, KeywordEntry } from '../interfaces/App.interface'
+import { Keyword } from '../interfaces/Keyword.interface'
+import { logger as baseLogger } from '../logger'
+import { keywordDictionaryFileSchema } from '../schemas/config.schema'
+import { ConfigUtil } from '../utils/ConfigUtil'
+import { KeywordUtil } from '../utils/KeywordUtil'
+import { SchemaUtil } from '../utils/SchemaUtil'
+import { configManager } from './ConfigManager'
+
+class KeywordManager {
+  private logger: winston.Logger
+  private isLoaded = false
+  private dictionaries: Record<string, Keyword[]> = {}
+  private watchedFiles = new Set<string>()
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[KeywordManager]' })
+    configManager.on('change', () => this.load())
+  }
+
+  /**
+   * Returns keywords from the dictionaries assigned to the user
+   */
+  public getKeywords(username?: string): Keyword[] {
+    if (!this.isLoaded) {
+      this.load()
+    }
+    const names = configManager.getUserOptions(username).dictionaries
+      || Object.keys(this.dictionaries)
+    return names.flatMap((name) => this.dictionaries[name] || [])
+  }
+
+  /**
+   * (Re)loads all dictionaries, a dictionary that fails to load keeps its previous keywords
+   */
+  public load() {
+    this.isLoaded = true
+    let configs = configManager.config.keywordDictionaries || []
+    if (!configs.length) {
+      this.logger.warn(`No keyword dictionary configured, using the built-in "${KEYWORD_DEFAULT_DICTIONARY_NAME}" dictionary (see keywordDictionaries in README.md)`)
+      configs = [{ name: KEYWORD_DEFAULT_DICTIONARY_NAME, file: KEYWORD_DEFAULT_DICTIONARY_FILE }]
+    }
+    const dictionaries: Record<string, Keyword[]> = {}
+    configs.forEach((config) => {
+      const keywords = this.loadDictionary(config)
+      dictionaries[config.name] = keywords || this.dictionaries[config.name] || []
+    })
+    this.dictionaries = dictionaries
+    this.watchFiles(configs)
+    this.logger.debug('load', {
+      dictionaries: Object.entries(dictionaries).map(([name, keywords]) => ({ name, keywordCount: keywords.length })),
+    })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private getFilePath(file: string) {
+    return path.resolve(path.dirname(configManager.configPath || './'), file)
+  }
+
+  private loadDictionary(config: KeywordDictionaryConfig): Keyword[] {
+    try {
+      const entries = [...(config.keywords || [])]
+      if (config.file) {
+        entries.push(...this.readFile(this.getFilePath(config.file)))
+      }
+      return entries.map((entry) => KeywordUtil.compile(entry, config.fuzzy))
+    } catch (error) {
+      this.logger.error(`loadDictionary: ${error.message}`, { name: config.name })
+      return null
+    }
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private readFile(filePath: string): KeywordEntry[] {
+    const payload = readFileSync(filePath, 'utf-8')
+    const isYaml = ConfigUtil.isYamlPath(filePath)
+    const entries = isYaml ? yaml.load(payload) : JSON.parse(payload)
+    const errors = SchemaUtil.validate(keywordDictionaryFileSchema, entries)
+      .map((error) => ({ ...error, line: ConfigUtil.getLine(payload, isYaml, error.path) }))
+    if (errors.length) {
+      throw new Error(`Invalid dictionary file ${filePath}: ${errors.map((v) => SchemaUtil.formatError(v)).join('; ')}`)
+    }
+    return entries
+  }
+
+  private watchFiles(configs: KeywordDictionaryConfig[]) {
+    const filePaths = configs
+      .filter((v) => v.file)
+      .map((v) => this.getFilePath(v.file))
+    this.watchedFiles.forEach((filePath) => {
+      if (filePaths.includes(filePath)) {
+        return
+      }
+      unwatchFile(filePath)
+      this.watchedFiles.delete(filePath)
+    })
+    filePaths.forEach((filePath) => {
+      if (this.watchedFiles.has(filePath)) {
+        return
+      }
+      this.watchedFiles.add(filePath)
+      watchFile(filePath, { interval: APP_CONFIG_WATCH_INTERVAL, persistent: false }, (curr, prev) => {
+        if (curr.mtimeMs === prev.mtimeMs) {
+          return
+        }
+        this.logger.info('Dictionary file changed', { filePath })
+        this.load()
+      })
+    })
+  }
+}
+
+export const keywordManager = new KeywordManager()
@@ -1,34 +1,81 @@
+import { program } from 'commander'
+import path from 'path'
 import winston from 'winston'
+import { APP_SHUTDOWN_CHECK_INTERVAL, APP_SHUTDOWN_KILL_TIMEOUT, APP_SHUTDOWN_TIMEOUT } from '../constants/app.constant'
 import { logger as baseLogger } from '../logger'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+import { recordingManager } from './RecordingManager'
+import { retentionManager } from './RetentionManager'
+import { scheduledSpaceManager } from './ScheduledSpaceManager'
+import { SpaceDownloader } from './SpaceDownloader'
+import { spaceStore } from './SpaceStore'
 import { SpaceWatcher } from './SpaceWatcher'
+import { transcriptionQueue } from './TranscriptionQueue'
 import { UserListWatcher } from './UserListWatcher'
+import { userManager } from './UserManager'
 import { UserWatcher } from './UserWatcher'
 
 class MainManager {
   private logger: winston.Logger
   private userWatchers: Record<string, UserWatcher> = {}
   private spaceWatchers: Record<string, SpaceWatcher> = {}
+  private userListWatcher: UserListWatcher
+  private isShuttingDown = false
 
   constructor() {
     this.logger = baseLogger.child({ label: '[MainManager]' })
+    // attached the moment a scheduled Space goes live
+    scheduledSpaceManager.on('live', (id) => this.addSpaceWatcher(id))
   }
 
-  public addSpaceWatcher(spaceId: string) {
+  /**
+   * Spaces already handled are skipped, unless `isRequested` (`--id` & `--url`) or forced
+   */
+  public addSpaceWatcher(spaceId: string, isRequested = false) {
     const watchers = this.spaceWatchers
-    if (watchers[spaceId]) {
+    if (watchers[spaceId] || this.isShuttingDown) {
       return
     }
+    // one pipeline per Space
+    if (recordingManager.isResuming(spaceId) || SpaceDownloader.isActive(spaceId)) {
+      this.logger.info(`Space ${spaceId} is being processed, skip`)
+      return
+    }
+    if (spaceStore.isHandled(spaceId) && !isRequested && !program.getOptionValue('force')) {
+      this.logger.info(`Space ${spaceId} already handled, skip`)
+      return
+    }
+    spaceStore.discover(spaceId)
     const watcher = new SpaceWatcher(spaceId)
     watchers[spaceId] = watcher
     watcher.watch()
-    watcher.once('complete', () => {
-      this.logger.debug(`SpaceWatcher@${spaceId} complete`)
+    const remove = (event: string) => {
+      this.logger.debug(`SpaceWatcher@${spaceId} ${event}`)
       if (!watchers[spaceId]) {
         return
       }
       delete watchers[spaceId]
       this.logger.debug(`SpaceWatcher@${spaceId} delete`)
-    })
+    }
+    watcher.once('complete', () => remove('complete'))
+    // not complete, watched again when found again
+    watcher.once('skip', () => remove('skip'))
+    // failed after its retries, resumed with the incomplete recordings
+    watcher.once('fail', () => remove('fail'))
+  }
+
+  /**
+   * Watches Spaces that were not handled when the process stopped
+   */
+  public restoreSpaceWatchers() {
+    const records = spaceStore.getPending()
+    if (!records.length) {
+      return
+    }
+    this.logger.info(`Restoring ${records.length} Space watcher(s)`, { ids: records.map((v) => v.id) })
+    records.forEach((record) => this.addSpaceWatcher(record.id))
   }
 
   public addUserWatcher(username: string) {
@@ -42,14 +89,155 @@ class MainManager {
     watcher.on('data', (id) => {
       this.addSpaceWatcher(id)
     })
+    watcher.on('scheduled', (id) => {
+      scheduledSpaceManager.add(id)
+    })
+  }
+
+  public removeUserWatcher(username: string) {
+    const watchers = this.userWatchers
+    const watcher = watchers[username]
+    if (!watcher) {
+      return
+    }
+    watcher.stop()
+    watcher.removeAllListeners()
+    delete watchers[username]
+  }
+
+  /**
+   * Adds & removes users so the monitored users match the list,
+   * Space watchers of removed users are kept until their Space is downloaded
+   */
+  public async syncUsers(usernames: string[]) {
+    const isSameUser = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+    const curUsernames = userManager.getUsers().map((v) => v.username)
+    const addedUsernames = usernames.filter((v) => !curUsernames.some((username) => isSameUser(v, username)))
+    const removedUsernames = curUsernames.filter((v) => !usernames.some((username) => isSameUser(v, username)))
+    if (!addedUsernames.length && !removedUsernames.length) {
+      return
+    }
+    this.logger.info('syncUsers', { added: addedUsernames, removed: removedUsernames })
+
+    if (removedUsernames.length) {
+      userManager.remove(removedUsernames)
+      Object.keys(this.userWatchers)
+        .filter((v) => removedUsernames.some((username) => isSameUser(v, username)))
+        .forEach((v) => this.removeUserWatcher(v))
+    }
+
+    if (addedUsernames.length) {
+      await userManager.add(addedUsernames)
+      if (!this.userListWatcher) {
+        addedUsernames.forEach((username) => this.addUserWatcher(username))
+      }
+    }
   }
 
   public runUserListWatcher() {
+    if (this.userListWatcher) {
+      return
+    }
     const watcher = new UserListWatcher()
+    this.userListWatcher = watcher
     watcher.watch()
     watcher.on('data', (id) => {
       this.addSpaceWatcher(id)
     })
+    watcher.on('scheduled', (id) => {
+      scheduledSpaceManager.add(id)
+    })
+  }
+
+  /**
+   * Shuts down on SIGINT & SIGTERM, a second signal forces exit
+   */
+  public handleSignals() {
+    const onSignal = (signal: string) => {
+      if (this.isShuttingDown) {
+        this.forceExit(signal)
+        return
+      }
+      this.shutdown(signal)
+        .catch((error) => this.logger.error(`shutdown: ${error.message}`))
+        .finally(() => process.exit())
+    }
+    process.on('SIGINT', onSignal)
+    process.on('SIGTERM', onSignal)
+  }
+
+  /**
+   * Stops polling & waits for recordings (ffmpeg) within the shutdown timeout,
+   * then terminates child processes & checkpoints pipeline states.
+   * Interrupted stages are run again on resume
+   */
+  public async shutdown(signal: string) {
+    this.isShuttingDown = true
+    const startedAt = Date.now()
+    const timeout = configManager.config?.shutdownTimeout ?? APP_SHUTDOWN_TIMEOUT
+    this.logger.info(`${signal} received, shutting down (send it again to force exit)`, { timeout })
+    this.stopWatchers()
+
+    const isRecording = (cmd: string) => cmd === 'ffmpeg'
+    // other processes, like transcribers, are not waited for
+    let killCount = ProcessUtil.kill('SIGTERM', (cmd) => !isRecording(cmd))
+    const isDrained = () => !ProcessUtil.getChildren().some((v) => isRecording(v.cmd))
+      && !SpaceDownloader.getRunningStages().some((v) => v.stage === 'ffmpeg')
+    await MainManager.waitFor(isDrained, timeout)
+    if (!isDrained()) {
+      this.logger.warn('Recordings did not finish in time, terminating them')
+    }
+    killCount += await MainManager.killChildren()
+    // let interrupted stages save their state
+    await new Promise((resolve) => { setImmediate(resolve) })
+
+    const interrupted = SpaceDownloader.checkpoint()
+    spaceStore.compact()
+    this.logger.info('Shutdown complete', {
+      signal,
+      duration: Util.getDisplayTime(Date.now() - startedAt),
+      spaceWatchers: Object.keys(this.spaceWatchers),
+      interrupted: interrupted.map((v) => `${path.basename(v.file)} (${v.stage})`),
+      terminatedProcesses: killCount,
+      queuedTranscriptions: transcriptionQueue.getJobs().length,
+    })
+  }
+
+  private forceExit(signal: string) {
+    this.logger.warn(`${signal} received again, forcing exit`)
+    ProcessUtil.kill('SIGKILL')
+    const interrupted = SpaceDownloader.checkpoint()
+    this.logger.warn('Exited', { interrupted: interrupted.map((v) => `${path.basename(v.file)} (${v.stage})`) })
+    process.exit(1)
+  }
+
+  private stopWatchers() {
+    Object.keys(this.userWatchers).forEach((username) => this.removeUserWatcher(username))
+    this.userListWatcher?.stop()
+    Object.values(this.spaceWatchers).forEach((watcher) => watcher.stop())
+    scheduledSpaceManager.stop()
+    retentionManager.stop()
+    transcriptionQueue.stop()
+    SpaceDownloader.stop()
+  }
+
+  /**
+   * Terminates child process groups, the ones still running after the kill timeout are killed.
+   * Returns the number of children terminated
+   */
+  private static async killChildren(): Promise<number> {
+    const count = ProcessUtil.kill('SIGTERM')
+    await MainManager.waitFor(() => !ProcessUtil.getChildren().length, APP_SHUTDOWN_KILL_TIMEOUT)
+    ProcessUtil.kill('SIGKILL')
+    return count
+  }
+
+  private static async waitFor(predicate: () => boolean, timeout: number) {
+    const startedAt = Date.now()
+    while (!predicate() && Date.now() - startedAt < timeout) {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => { setTimeout(resolve, APP_SHUTDOWN_CHECK_INTERVAL) })
+    }
   }
 }
 
@@ -0,0 +1,213 @@
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { TwitterApi } from '../apis/TwitterApi'
+import { APP_PIPELINE_STATE_EXT } from '../constants/app.constant'
+import { HLS_MANIFEST_EXT } from '../constants/hls.constant'
+import { TWITTER_AUTHORIZATION } from '../constants/twitter.constant'
+import { RecordingIntegrity } from '../interfaces/Hls.interface'
+import { AudioSpace } from '../interfaces/Twitter.interface'
+import { twitterApiLimiter } from '../Limiter'
+import { logger as baseLogger } from '../logger'
+import { PeriscopeUtil } from '../utils/PeriscopeUtil'
+import { PipelineUtil } from '../utils/PipelineUtil'
+import { SpaceUtil } from '../utils/SpaceUtil'
+import { TrackedSpaceUtil } from '../utils/TrackedSpaceUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+import { HlsDownloader } from './HlsDownloader'
+import { SpaceDownloader } from './SpaceDownloader'
+import { spaceStore } from './SpaceStore'
+import { Webhook } from './Webhook'
+
+/**
+ * What the final webhook of a resumed recording needs
+ */
+interface ResumedRecording {
+  playlistUrl: string
+  filename: string
+  subDir: string
+  integrity?: RecordingIntegrity
+  clipFiles?: string[]
+}
+
+class RecordingManager {
+  private logger: winston.Logger
+  /**
+   * Spaces of recordings waiting to be resumed, they are not watched meanwhile
+   */
+  private spaceIds = new Set<string>()
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[RecordingManager]' })
+  }
+
+  public isResuming(spaceId: string): boolean {
+    return this.spaceIds.has(spaceId)
+  }
+
+  /**
+   * Returns manifests of recordings that were not completed, searched recursively
+   */
+  public findIncompleteManifests(dir = Util.getMediaDir()): string[] {
+    return this.findFiles(dir, HLS_MANIFEST_EXT).filter((file) => {
+      try {
+        return !HlsDownloader.readManifest(file).complete
+      } catch (error) {
+        this.logger.warn(`Failed to read manifest ${file}: ${error.message}`)
+        return false
+      }
+    })
+  }
+
+  /**
+   * Returns pipeline states with stages that were not completed, searched recursively
+   */
+  public findIncompleteStates(dir = Util.getMediaDir()): string[] {
+    return this.findFiles(dir, APP_PIPELINE_STATE_EXT).filter((file) => {
+      try {
+        return !PipelineUtil.isStateComplete(PipelineUtil.readState(file))
+      } catch (error) {
+        this.logger.warn(`Failed to read pipeline state ${file}: ${error.message}`)
+        return false
+      }
+    })
+  }
+
+  /**
+   * Picks up incomplete pipelines at their failed stage,
+   * then downloads missing chunks of recordings without pipeline, one recording at a time.
+   * Once resumed, the Space is completed & its final webhook is sent, as its watcher would
+   */
+  public async resume() {
+    const stateFiles = this.findIncompleteStates()
+    const manifestFiles = this.findIncompleteManifests().filter((file) => {
+      const stateFile = file.slice(0, -HLS_MANIFEST_EXT.length) + APP_PIPELINE_STATE_EXT
+      return !existsSync(stateFile)
+    })
+    if (!stateFiles.length && !manifestFiles.length) {
+      return
+    }
+    this.logger.info(`Resuming ${stateFiles.length + manifestFiles.length} incomplete recording(s)`)
+    const tasks = [
+      ...stateFiles.map((file) => ({
+        file,
+        ext: APP_PIPELINE_STATE_EXT,
+        spaceId: RecordingManager.getSpaceId(file),
+        run: async (): Promise<ResumedRecording> => {
+          const state = PipelineUtil.readState(file)
+          const downloader = SpaceDownloader.fromState(file)
+          await downloader.download()
+          return {
+            playlistUrl: PeriscopeUtil.getMasterPlaylistUrl(state.originUrl),
+            filename: state.filename,
+            subDir: state.subDir,
+            integrity: downloader.integrity,
+            clipFiles: downloader.clip_files,
+          }
+        },
+      })),
+      ...manifestFiles.map((file) => ({
+        file,
+        ext: HLS_MANIFEST_EXT,
+        spaceId: RecordingManager.getSpaceId(file),
+        run: async (): Promise<ResumedRecording> => {
+          const manifest = HlsDownloader.readManifest(file)
+          return {
+            playlistUrl: manifest.playlistUrl,
+            filename: path.basename(file, HLS_MANIFEST_EXT),
+            subDir: path.relative(Util.getMediaDir(), path.dirname(file)),
+            integrity: await HlsDownloader.fromManifest(file).download(),
+          }
+        },
+      })),
+    ]
+    tasks.filter((task) => task.spaceId).forEach((task) => this.spaceIds.add(task.spaceId))
+    // eslint-disable-next-line no-restricted-syntax
+    for (const task of tasks) {
+      const name = path.basename(task.file, task.ext)
+      try {
+        if (task.spaceId && SpaceDownloader.isActive(task.spaceId)) {
+          this.logger.info(`Space ${task.spaceId} is being processed, skip resuming ${name}`)
+        } else {
+          // eslint-disable-next-line no-await-in-loop
+          const recording = await task.run()
+          this.logger.info(`Recording resumed: ${name}`)
+          if (task.spaceId) {
+            // eslint-disable-next-line no-await-in-loop
+            await this.completeSpace(task.spaceId, recording)
+          }
+        }
+      } catch (error) {
+        const status = error.response?.status
+        if (status === 403 || status === 404) {
+          this.logger.warn(`Playlist no longer available: ${name}`, { status })
+        } else {
+          this.logger.error(`Failed to resume recording ${name}: ${error.message}`)
+        }
+      } finally {
+        this.spaceIds.delete(task.spaceId)
+      }
+    }
+  }
+
+  /**
+   * Sends the final webhook with the recording, then completes the Space.
+   * A failed webhook does not keep the Space incomplete, its recording is done
+   */
+  private async completeSpace(spaceId: string, recording: ResumedRecording) {
+    try {
+      const audioSpace = await RecordingManager.getAudioSpace(spaceId)
+      const { username } = spaceStore.get(spaceId) || {}
+      Object.assign(audioSpace, {
+        tracked_participants: SpaceUtil.getTrackedParticipants(audioSpace, username ? [username] : []),
+        recording_integrity: recording.integrity,
+        clip_files: recording.clipFiles,
+      })
+      if (TrackedSpaceUtil.isAllowed(audioSpace, 'webhook')) {
+        await new Webhook(audioSpace, recording.playlistUrl, recording.filename, recording.subDir).send()
+      } else {
+        this.logger.debug('Guest appearance webhooks disabled, skip', { spaceId })
+      }
+    } catch (error) {
+      this.logger.error(`completeSpace: ${error.message}`, { spaceId })
+    }
+    spaceStore.complete(spaceId)
+  }
+
+  private static async getAudioSpace(id: string): Promise<AudioSpace> {
+    const headers = {
+      authorization: TWITTER_AUTHORIZATION,
+      'x-guest-token': await configManager.getGuestToken(),
+    }
+    const data = await twitterApiLimiter.schedule(() => TwitterApi.getAudioSpaceById(id, headers))
+    return data.data.audioSpace
+  }
+
+  /**
+   * Space id from the metadata of a state file or manifest, playlist url downloads have none
+   */
+  private static getSpaceId(file: string): string {
+    try {
+      const data = JSON.parse(readFileSync(file, 'utf-8'))
+      return (data.metadata || data.options?.metadata)?.episode_id
+    } catch (error) {
+      return undefined
+    }
+  }
+
+  private findFiles(dir: string, ext: string): string[] {
+    if (!existsSync(dir)) {
+      return []
+    }
+    return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const file = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        return this.findFiles(file, ext)
+      }
+      return entry.name.endsWith(ext) ? [file] : []
+    })
+  }
+}
+
+export const recordingManager = new RecordingManager()
@@ -0,0 +1,364 @@
+import {
+  existsSync, readdirSync, readFileSync, statSync,
+} from 'fs'
+import { rm } from 'fs/promises'
+import path from 'path'
+import winston from 'winston'
+import { APP_PIPELINE_STATE_EXT } from '../constants/app.constant'
+import { HLS_MANIFEST_EXT } from '../constants/hls.constant'
+import {
+  RETENTION_ACTIVE_WINDOW,
+  RETENTION_AUDIO_EXTS,
+  RETENTION_COMPRESS_BITRATE,
+  RETENTION_DAY,
+  RETENTION_INTERVAL,
+  RETENTION_SUFFIXES,
+} from '../constants/retention.constant'
+import { RecordingManifest } from '../interfaces/Hls.interface'
+import { PipelineState } from '../interfaces/Pipeline.interface'
+import {
+  RetentionAction, RetentionFileType, RetentionRecording, RetentionRule,
+} from '../interfaces/Retention.interface'
+import { logger as baseLogger } from '../logger'
+import { PipelineUtil } from '../utils/PipelineUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+
+/**
+ * Applies retention rules to the download directory & checks free disk space
+ */
+class RetentionManager {
+  private logger: winston.Logger
+  private timeout: ReturnType<typeof setTimeout>
+  private isRunning = false
+  private isFreeSpaceUnknown = false
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[RetentionManager]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private get config() {
+    return configManager.config.retention || {}
+  }
+
+  /**
+   * Runs rules on an interval while retention is active, config is read again on each run
+   */
+  public start() {
+    clearTimeout(this.timeout)
+    if (this.config.active) {
+      this.run(this.config.dryRun).catch((error) => this.logger.error(`run: ${error.message}`))
+    }
+    this.timeout = setTimeout(() => this.start(), this.config.interval || RETENTION_INTERVAL)
+    this.timeout.unref()
+  }
+
+  public stop() {
+    clearTimeout(this.timeout)
+  }
+
+  /**
+   * Returns false when free space of the download directory is below the refuse threshold
+   */
+  public hasFreeSpace(): boolean {
+    const { warn, refuse } = configManager.config.freeSpace || {}
+    if (!warn && !refuse) {
+      return true
+    }
+    const freeSpace = Util.getFreeSpace(Util.getMediaDir())
+    if (freeSpace === undefined) {
+      if (!this.isFreeSpaceUnknown) {
+        this.isFreeSpaceUnknown = true
+        this.logger.warn('Free space of the download directory cannot be read, freeSpace checks are disabled')
+      }
+      return true
+    }
+    const freeSpaceMb = freeSpace / 1024 / 1024
+    if (refuse && freeSpaceMb < refuse) {
+      this.logger.error(`Free space ${Util.getDisplaySize(freeSpace)} is below ${refuse}MB`)
+      return false
+    }
+    if (warn && freeSpaceMb < warn) {
+      this.logger.warn(`Free space ${Util.getDisplaySize(freeSpace)} is below ${warn}MB`)
+    }
+    return true
+  }
+
+  /**
+   * Plans actions of every rule, then runs them unless dry run
+   */
+  public async run(dryRun = false): Promise<RetentionAction[]> {
+    if (this.isRunning) {
+      return []
+    }
+    this.isRunning = true
+    try {
+      const actions = this.plan(this.getRecordings())
+      // eslint-disable-next-line no-restricted-syntax
+      for (const action of actions) {
+        this.logger.info(`${dryRun ? '[dry-run] ' : ''}${action.type} ${action.recording}`, {
+          rule: action.rule,
+          files: action.files.map((v) => path.basename(v)),
+          size: Util.getDisplaySize(action.size),
+        })
+        if (!dryRun) {
+          try {
+            // eslint-disable-next-line no-await-in-loop
+            await this.apply(action)
+          } catch (error) {
+            this.logger.error(`Failed to ${action.type} ${action.recording}: ${error.message}`)
+          }
+        }
+      }
+      const size = actions.reduce((sum, v) => sum + v.size, 0)
+      this.logger.info(`${dryRun ? '[dry-run] ' : ''}${actions.length} action(s), ${Util.getDisplaySize(size)}`)
+      return actions
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  /**
+   * Recordings of the download directory, searched recursively
+   */
+  public getRecordings(dir = Util.getMediaDir()): RetentionRecording[] {
+    if (!existsSync(dir)) {
+      return []
+    }
+    const entries = readdirSync(dir, { withFileTypes: true })
+    const recordings = new Map<string, RetentionRecording>()
+    const subRecordings: RetentionRecording[] = []
+    entries.forEach((entry) => {
+      const file = path.join(dir, entry.name)
+      if (entry.isDirectory() && !entry.name.endsWith('.chunks')) {
+        subRecordings.push(...this.getRecordings(file))
+        return
+      }
+      const name = this.getRecordingName(entry.name)
+      const recording = recordings.get(name) || {
+        name, dir, files: [], size: 0, mtime: 0, complete: true,
+      }
+      const stats = statSync(file)
+      const size = entry.isDirectory() ? RetentionManager.getDirSize(file) : stats.size
+      recording.files.push({
+        file, type: this.getFileType(entry.name, name), size, mtime: stats.mtimeMs,
+      })
+      recording.size += size
+      recording.mtime = Math.max(recording.mtime, stats.mtimeMs)
+      recordings.set(name, recording)
+    })
+    recordings.forEach((recording) => Object.assign(recording, {
+      complete: RetentionManager.isComplete(recording),
+      username: RetentionManager.getUsername(recording),
+    }))
+    return [...recordings.values(), ...subRecordings]
+  }
+
+  private plan(allRecordings: RetentionRecording[]): RetentionAction[] {
+    const { config } = this
+    const now = Date.now()
+    const actions: RetentionAction[] = []
+    const deleted = new Set<RetentionRecording>()
+    const remove = (recording: RetentionRecording, rule: RetentionRule) => {
+      deleted.add(recording)
+      actions.push({
+        rule, type: 'delete', recording: recording.name, files: recording.files.map((v) => v.file), size: recording.size,
+      })
+    }
+    const isOlderThan = (recording: RetentionRecording, days: number) => now - recording.mtime > days * RETENTION_DAY
+    const isActive = (recording: RetentionRecording) => now - recording.mtime <= RETENTION_ACTIVE_WINDOW
+    // Newest first, recordings in progress or not done are never deleted
+    const recordings = allRecordings
+      .filter((v) => !isActive(v) && v.complete)
+      .sort((a, b) => b.mtime - a.mtime)
+
+    if (config.maxAge !== undefined) {
+      recordings
+        .filter((v) => isOlderThan(v, config.maxAge))
+        .forEach((v) => remove(v, 'maxAge'))
+    }
+
+    if (config.keepPerUser) {
+      // Recordings in progress are counted but never deleted.
+      // Grouped by username, or by directory when its state & manifest were dropped
+      const users = new Map<string, RetentionRecording[]>()
+      allRecordings
+        .slice()
+        .sort((a, b) => b.mtime - a.mtime)
+        .forEach((v) => {
+          const key = v.username ? `@${v.username.toLowerCase()}` : v.dir
+          users.set(key, [...(users.get(key) || []), v])
+        })
+      users.forEach((userRecordings) => userRecordings
+        .slice(config.keepPerUser)
+        .filter((v) => recordings.includes(v) && !deleted.has(v))
+        .forEach((v) => remove(v, 'keepPerUser')))
+    }
+
+    if (config.maxSize !== undefined) {
+      const maxSize = config.maxSize * 1024 * 1024
+      let totalSize = allRecordings
+        .filter((v) => !deleted.has(v))
+        .reduce((sum, v) => sum + v.size, 0)
+      // eslint-disable-next-line no-restricted-syntax
+      for (const recording of [...recordings].reverse()) {
+        if (totalSize <= maxSize) {
+          break
+        }
+        if (!deleted.has(recording)) {
+          totalSize -= recording.size
+          remove(recording, 'maxSize')
+        }
+      }
+    }
+
+    const remaining = recordings.filter((v) => !deleted.has(v))
+
+    if (config.dropIntermediatesAfter !== undefined) {
+      remaining
+        .filter((v) => isOlderThan(v, config.dropIntermediatesAfter))
+        .forEach((recording) => {
+          const files = recording.files.filter((v) => v.type === 'intermediate' || v.type === 'state')
+          if (files.length) {
+            actions.push({
+              rule: 'dropIntermediatesAfter',
+              type: 'delete',
+              recording: recording.name,
+              files: files.map((v) => v.file),
+              size: files.reduce((sum, v) => sum + v.size, 0),
+            })
+          }
+        })
+    }
+
+    if (config.compressAfter !== undefined) {
+      remaining
+        .filter((v) => isOlderThan(v, config.compressAfter))
+        .forEach((recording) => {
+          // Outputs of different formats would be compressed to the same file, only the first one is
+          const files = recording.files
+            .filter((v) => v.type === 'audio' && path.extname(v.file) !== '.opus')
+            .filter((v, i, arr) => arr.findIndex((w) => RetentionManager.getCompressedFile(w.file) === RetentionManager.getCompressedFile(v.file)) === i)
+            .filter((v) => !existsSync(RetentionManager.getCompressedFile(v.file)))
+          if (files.length) {
+            actions.push({
+              rule: 'compressAfter',
+              type: 'compress',
+              recording: recording.name,
+              files: files.map((v) => v.file),
+              size: files.reduce((sum, v) => sum + v.size, 0),
+            })
+          }
+        })
+    }
+
+    return actions
+  }
+
+  private async apply(action: RetentionAction) {
+    if (action.type === 'delete') {
+      await Promise.all(action.files.map((file) => rm(file, { recursive: true, force: true })))
+      return
+    }
+    const bitrate = this.config.compressBitrate || RETENTION_COMPRESS_BITRATE
+    // eslint-disable-next-line no-restricted-syntax
+    for (const file of action.files) {
+      const compressedFile = RetentionManager.getCompressedFile(file)
+      // eslint-disable-next-line no-await-in-loop
+      await ProcessUtil.run('ffmpeg', ['-y', '-i', file, '-map_metadata', '0', '-c:a', 'libopus', '-b:a', bitrate, compressedFile])
+      // eslint-disable-next-line no-await-in-loop
+      await rm(file, { force: true })
+    }
+  }
+
+  /**
+   * Strips known suffixes, `name-live.transcript.vtt` & `name.discord.mp3` belong to `name`
+   */
+  // eslint-disable-next-line class-methods-use-this
+  private getRecordingName(fileName: string): string {
+    const suffixes = [
+      ...RETENTION_SUFFIXES,
+      ...(configManager.config.encodingProfiles || []).map((v) => `.${v.name}`),
+    ]
+    let name = fileName
+    let ext = path.extname(name)
+    // clips are `<name>.clip-<n>.<ext>`
+    while (ext && (suffixes.includes(ext.toLowerCase()) || /^\.clip-\d+$/.test(ext))) {
+      name = name.slice(0, -ext.length)
+      ext = path.extname(name)
+    }
+    return name.replace(/-live$/, '')
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private getFileType(fileName: string, name: string): RetentionFileType {
+    if (fileName.startsWith(`${name}-live`)) {
+      return 'intermediate'
+    }
+    if (fileName.endsWith(HLS_MANIFEST_EXT) || fileName.endsWith(APP_PIPELINE_STATE_EXT)) {
+      return 'state'
+    }
+    if (fileName === `${name}.vtt`) {
+      return 'captions'
+    }
+    if (RETENTION_AUDIO_EXTS.includes(path.extname(fileName).toLowerCase())) {
+      return 'audio'
+    }
+    return 'intermediate'
+  }
+
+  private static isComplete(recording: RetentionRecording): boolean {
+    return recording.files.every((v) => {
+      try {
+        if (v.file.endsWith('.chunks') || v.file.endsWith('.tmp')) {
+          return false
+        }
+        if (v.file.endsWith(HLS_MANIFEST_EXT)) {
+          return JSON.parse(readFileSync(v.file, 'utf-8')).complete === true
+        }
+        if (v.file.endsWith(APP_PIPELINE_STATE_EXT)) {
+          return PipelineUtil.isStateComplete(PipelineUtil.readState(v.file))
+        }
+        return true
+      } catch (error) {
+        return false
+      }
+    })
+  }
+
+  private static getUsername(recording: RetentionRecording): string {
+    const state = recording.files.find((v) => v.file.endsWith(APP_PIPELINE_STATE_EXT))
+    const manifest = recording.files.find((v) => v.file.endsWith(HLS_MANIFEST_EXT))
+    try {
+      if (state) {
+        const { options }: PipelineState = JSON.parse(readFileSync(state.file, 'utf-8'))
+        if (options?.username) {
+          return options.username
+        }
+      }
+      if (manifest) {
+        const { options }: RecordingManifest = JSON.parse(readFileSync(manifest.file, 'utf-8'))
+        return options?.username
+      }
+    } catch (error) {
+      // grouped by directory
+    }
+    return undefined
+  }
+
+  private static getCompressedFile(file: string): string {
+    const { dir, name } = path.parse(file)
+    return path.join(dir, `${name}.opus`)
+  }
+
+  private static getDirSize(dir: string): number {
+    return readdirSync(dir, { withFileTypes: true }).reduce((sum, entry) => {
+      const file = path.join(dir, entry.name)
+      return sum + (entry.isDirectory() ? this.getDirSize(file) : statSync(file).size)
+    }, 0)
+  }
+}
+
+export const retentionManager = new RetentionManager()
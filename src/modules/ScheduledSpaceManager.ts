@@ -0,0 +1,247 @@
+import EventEmitter from 'events'
+import {
+  existsSync, readFileSync, renameSync, writeFileSync,
+} from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { TwitterApi } from '../apis/TwitterApi'
+import {
+  SCHEDULE_CHECK_INTERVAL_MIN,
+  SCHEDULE_CHECK_STEPS,
+  SCHEDULE_FILE_NAME,
+  SCHEDULE_LATE_INTERVAL,
+  SCHEDULE_LATE_WINDOW,
+  SCHEDULE_MAX_DELAY,
+} from '../constants/schedule.constant'
+import { TWITTER_AUTHORIZATION } from '../constants/twitter.constant'
+import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+import { ScheduledSpace, ScheduledSpaceState } from '../interfaces/Schedule.interface'
+import { AudioSpace } from '../interfaces/Twitter.interface'
+import { twitterApiLimiter } from '../Limiter'
+import { logger as baseLogger } from '../logger'
+import { SpaceUtil } from '../utils/SpaceUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+import { spaceStore } from './SpaceStore'
+import { Webhook } from './Webhook'
+
+const SCHEDULED_STATES = [AudioSpaceMetadataState.NOT_STARTED, AudioSpaceMetadataState.PRE_PUBLISHED]
+
+/**
+ * Registry of scheduled Spaces, checked more often as their start approaches.
+ * Stored on disk & resumed on startup.
+ * Emits `live` (id) once a Space started & `canceled` (space)
+ */
+class ScheduledSpaceManager extends EventEmitter {
+  private logger: winston.Logger
+  private isLoaded = false
+  private isStopped = false
+  private spaces: ScheduledSpace[] = []
+  private timeout: ReturnType<typeof setTimeout>
+
+  constructor() {
+    super()
+    this.logger = baseLogger.child({ label: '[ScheduledSpaceManager]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  public get file(): string {
+    return path.join(Util.getCacheDir(), SCHEDULE_FILE_NAME)
+  }
+
+  public getSpaces(): ScheduledSpace[] {
+    return [...this.spaces].sort((a, b) => (a.scheduledStart || 0) - (b.scheduledStart || 0))
+  }
+
+  /**
+   * Loads the registry & checks Spaces that are due
+   */
+  public resume() {
+    this.load()
+    if (this.spaces.length) {
+      this.logger.info(`Resuming ${this.spaces.length} scheduled Space(s)`)
+    }
+    this.next()
+  }
+
+  public stop() {
+    this.isStopped = true
+    clearTimeout(this.timeout)
+  }
+
+  /**
+   * Checks a Space found by a user watcher, it is registered if it is scheduled
+   */
+  public async add(id: string) {
+    if (!this.isLoaded) {
+      this.load()
+    }
+    if (this.spaces.some((v) => v.id === id)) {
+      return
+    }
+    try {
+      const audioSpace = await this.getAudioSpace(id)
+      this.update(id, audioSpace)
+    } catch (error) {
+      this.logger.error(`add: ${error.message}`, { id })
+    }
+  }
+
+  private load() {
+    this.isLoaded = true
+    if (!existsSync(this.file)) {
+      return
+    }
+    try {
+      const state: ScheduledSpaceState = JSON.parse(readFileSync(this.file, 'utf-8'))
+      this.spaces = state.spaces || []
+    } catch (error) {
+      this.logger.error(`load: ${error.message}`)
+    }
+  }
+
+  private save() {
+    const state: ScheduledSpaceState = { spaces: this.spaces }
+    try {
+      Util.createCacheDir()
+      const tmpFile = `${this.file}.tmp`
+      writeFileSync(tmpFile, JSON.stringify(state, null, 2))
+      renameSync(tmpFile, this.file)
+    } catch (error) {
+      this.logger.error(`save: ${error.message}`)
+    }
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private async getAudioSpace(id: string): Promise<AudioSpace> {
+    const headers = {
+      authorization: TWITTER_AUTHORIZATION,
+      'x-guest-token': await configManager.getGuestToken(),
+    }
+    const data = await twitterApiLimiter.schedule(() => TwitterApi.getAudioSpaceById(id, headers))
+    return data.data.audioSpace
+  }
+
+  /**
+   * Applies the latest state of a Space to the registry
+   */
+  private update(id: string, audioSpace: AudioSpace) {
+    const { metadata } = audioSpace
+    const now = Date.now()
+    let space = this.spaces.find((v) => v.id === id)
+    spaceStore.setState(id, metadata.state, { username: SpaceUtil.getHostUsername(audioSpace), title: SpaceUtil.getTitle(audioSpace) })
+
+    if (SCHEDULED_STATES.includes(metadata.state)) {
+      const isNew = !space
+      if (isNew) {
+        space = {
+          id, state: metadata.state, addedAt: now, nextCheckAt: now,
+        }
+        this.spaces.push(space)
+      }
+      Object.assign(space, {
+        username: SpaceUtil.getHostUsername(audioSpace),
+        title: SpaceUtil.getTitle(audioSpace),
+        scheduledStart: metadata.scheduled_start,
+        state: metadata.state,
+        checkedAt: now,
+      })
+      space.nextCheckAt = now + ScheduledSpaceManager.getCheckInterval(space)
+      if (isNew) {
+        this.logger.info('Space scheduled', {
+          id,
+          username: space.username,
+          title: space.title,
+          scheduledStart: space.scheduledStart ? new Date(space.scheduledStart).toISOString() : null,
+        })
+        this.sendWebhooks(audioSpace)
+      } else if (space.scheduledStart && now - space.scheduledStart > SCHEDULE_MAX_DELAY) {
+        this.logger.warn('Scheduled Space did not start, stop checking', { id, username: space.username })
+        this.remove(id)
+      }
+      this.save()
+      this.next()
+      return
+    }
+
+    if (!space && metadata.state !== AudioSpaceMetadataState.RUNNING) {
+      return
+    }
+    this.remove(id)
+    switch (metadata.state) {
+      case AudioSpaceMetadataState.RUNNING:
+      case AudioSpaceMetadataState.ENDED:
+        this.logger.info(`Space ${metadata.state === AudioSpaceMetadataState.RUNNING ? 'started' : 'ended'}`, { id, username: space?.username })
+        this.emit('live', id)
+        break
+      case AudioSpaceMetadataState.CANCELED:
+        this.logger.info('Space canceled', { id, username: space.username, title: space.title })
+        this.sendWebhooks(audioSpace)
+        this.emit('canceled', space)
+        break
+      default:
+        this.logger.info(`Scheduled Space is ${metadata.state}, stop checking`, { id, username: space.username })
+    }
+  }
+
+  private remove(id: string) {
+    this.spaces = this.spaces.filter((v) => v.id !== id)
+    this.save()
+  }
+
+  /**
+   * Checks due Spaces one by one, then waits for the next one
+   */
+  private next() {
+    clearTimeout(this.timeout)
+    if (this.isStopped || !this.spaces.length) {
+      return
+    }
+    const nextCheckAt = Math.min(...this.spaces.map((v) => v.nextCheckAt))
+    this.timeout = setTimeout(() => this.check(), Math.max(0, nextCheckAt - Date.now()))
+  }
+
+  private async check() {
+    const now = Date.now()
+    const spaces = this.spaces.filter((v) => v.nextCheckAt <= now)
+    // eslint-disable-next-line no-restricted-syntax
+    for (const space of spaces) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const audioSpace = await this.getAudioSpace(space.id)
+        this.update(space.id, audioSpace)
+      } catch (error) {
+        this.logger.error(`check: ${error.message}`, { id: space.id })
+        space.nextCheckAt = Date.now() + ScheduledSpaceManager.getCheckInterval(space)
+      }
+    }
+    this.save()
+    this.next()
+  }
+
+  private sendWebhooks(audioSpace: AudioSpace) {
+    new Webhook(audioSpace, null, null, null).send()
+      .catch((error) => this.logger.error(`sendWebhooks: ${error.message}`))
+  }
+
+  /**
+   * Shorter as the planned start approaches, longer once the Space is late
+   */
+  private static getCheckInterval(space: ScheduledSpace): number {
+    if (!space.scheduledStart) {
+      return SCHEDULE_LATE_INTERVAL
+    }
+    const timeLeft = space.scheduledStart - Date.now()
+    if (timeLeft < -SCHEDULE_LATE_WINDOW) {
+      return SCHEDULE_LATE_INTERVAL
+    }
+    const step = SCHEDULE_CHECK_STEPS.find((v) => timeLeft > v.before)
+    if (!step) {
+      return SCHEDULE_CHECK_INTERVAL_MIN
+    }
+    // do not wait past the next step
+    return Math.max(SCHEDULE_CHECK_INTERVAL_MIN, Math.min(step.interval, timeLeft - step.before))
+  }
+}
+
+export const scheduledSpaceManager = new ScheduledSpaceManager()
@@ -0,0 +1,134 @@
+import winston from 'winston'
+import { ConcurrencySlot } from '../interfaces/App.interface'
+import { logger as baseLogger } from '../logger'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+
+export interface SlotRequest {
+  slot: ConcurrencySlot
+  /**
+   * Shown in logs, e.g. the recording file name
+   */
+  name: string
+  username?: string
+  /**
+   * Higher is admitted first, default to the user priority
+   */
+  priority?: number
+}
+
+interface SlotWaiter extends SlotRequest {
+  category?: string
+  priority: number
+  createdAt: number
+  isWaiting?: boolean
+  resolve: (release: () => void) => void
+}
+
+type SlotHolder = Pick<SlotWaiter, 'slot' | 'name' | 'category'>
+
+/**
+ * Limits recordings, post-processing (ffmpeg runs after recordings) & webhooks running at the same time, globally & per category.
+ * Tasks waiting for a slot are admitted by priority, then in order of arrival.
+ * Limits are read from the config on each admission
+ */
+class SlotManager {
+  private logger: winston.Logger
+  private holders: SlotHolder[] = []
+  private waiters: SlotWaiter[] = []
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[SlotManager]' })
+  }
+
+  /**
+   * Resolves with the function releasing the slot once one is free,
+   * `onWait` is called right away if there is none
+   */
+  public acquire(request: SlotRequest, onWait?: () => void): Promise<() => void> {
+    let waiter: SlotWaiter
+    const promise = new Promise<() => void>((resolve) => {
+      waiter = {
+        ...request,
+        category: configManager.getUserConfig(request.username)?.category,
+        priority: request.priority ?? configManager.getUserOptions(request.username).priority,
+        createdAt: Date.now(),
+        resolve,
+      }
+      this.waiters.push(waiter)
+    })
+    this.next()
+    if (this.waiters.includes(waiter)) {
+      waiter.isWaiting = true
+      onWait?.()
+      this.logger.info(`Waiting for ${request.slot} slot`, {
+        name: request.name,
+        priority: waiter.priority,
+        position: this.getQueue(request.slot).indexOf(waiter) + 1,
+        running: this.holders.filter((v) => v.slot === request.slot).length,
+      })
+    }
+    return promise
+  }
+
+  /**
+   * Tasks waiting for a slot, in admission order
+   */
+  public getWaiters(slot?: ConcurrencySlot): SlotRequest[] {
+    return this.getQueue(slot).map((v) => ({
+      slot: v.slot, name: v.name, username: v.username, priority: v.priority,
+    }))
+  }
+
+  private getQueue(slot?: ConcurrencySlot): SlotWaiter[] {
+    return this.waiters
+      .filter((v) => !slot || v.slot === slot)
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private getLimits(slot: ConcurrencySlot, category?: string): number[] {
+    return [
+      configManager.config?.concurrency?.[slot],
+      category ? configManager.getCategoryConfig(category)?.concurrency?.[slot] : undefined,
+    ]
+  }
+
+  private canAdmit(waiter: SlotWaiter): boolean {
+    const [globalLimit, categoryLimit] = this.getLimits(waiter.slot, waiter.category)
+    const holders = this.holders.filter((v) => v.slot === waiter.slot)
+    if (globalLimit && holders.length >= globalLimit) {
+      return false
+    }
+    const categoryHolders = holders.filter((v) => v.category?.toLowerCase() === waiter.category?.toLowerCase())
+    return !categoryLimit || categoryHolders.length < categoryLimit
+  }
+
+  /**
+   * Admits waiters by priority, a waiter blocked by its category limit does not block other categories
+   */
+  private next() {
+    this.getQueue().forEach((waiter) => {
+      if (!this.canAdmit(waiter)) {
+        return
+      }
+      const holder: SlotHolder = { slot: waiter.slot, name: waiter.name, category: waiter.category }
+      this.waiters = this.waiters.filter((v) => v !== waiter)
+      this.holders.push(holder)
+      if (waiter.isWaiting) {
+        this.logger.info(`Acquired ${waiter.slot} slot`, { name: waiter.name, waited: Util.getDisplayTime(Date.now() - waiter.createdAt) })
+      }
+      let isReleased = false
+      waiter.resolve(() => {
+        if (isReleased) {
+          return
+        }
+        isReleased = true
+        this.holders = this.holders.filter((v) => v !== holder)
+        this.next()
+      })
+    })
+  }
+}
+
+export const slotManager = new SlotManager()
@@ -4,6 +4,7 @@ import path from 'path'
 import winston from 'winston'
 import { PeriscopeApi } from '../apis/PeriscopeApi'
 import { logger as baseLogger } from '../logger'
+import { storageManager } from './StorageManager'
 
 export class SpaceCaptionsDownloader {
   private logger: winston.Logger
@@ -47,6 +48,8 @@ export class SpaceCaptionsDownloader {
       }
     } while (this.cursor || this.chunkCount <= 1)
     this.logger.info(`Chat downloaded to "${this.file}"`)
+    await storageManager.upload([this.file])
+      .catch((error) => this.logger.error(`Failed to upload chat: ${error.message}`))
   }
 
   private async getChatHistory() {
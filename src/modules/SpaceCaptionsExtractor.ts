@@ -5,6 +5,7 @@ import { MessageKind } from '../enums/Periscope.enum'
 import { ChatMessage } from '../interfaces/Periscope.interface'
 import { logger as baseLogger } from '../logger'
 import { Util } from '../utils/Util'
+import { storageManager } from './StorageManager'
 
 export class SpaceCaptionsExtractor {
   private logger: winston.Logger
@@ -32,6 +33,8 @@ export class SpaceCaptionsExtractor {
         }
         fs.writeFileSync(this.outFile, '')
         await this.processFile()
+        await storageManager.upload([this.outFile])
+          .catch((error) => this.logger.error(`Failed to upload captions: ${error.message}`))
         resolve(this.outFile)
       } catch (error) {
         this.logger.error(error.message)
@@ -1,151 +1,51 @@
-import { spawn, SpawnOptions } from 'child_process';
-import { createReadStream } from 'fs';
+import { existsSync, renameSync, unlinkSync } from 'fs';
 import { stat } from 'fs/promises';
-import { parse } from 'subtitle';
 import path from 'path';
 import winston from 'winston';
 import { PeriscopeApi } from '../apis/PeriscopeApi';
 import { logger as baseLogger } from '../logger';
 import { Util } from '../utils/Util';
 import { CaptionPhrase } from '../interfaces/Twitter.interface';
-
-const keywords = [
-	{
-		raw: [
-			'NJF',
-			'N J F'
-		],
-		fmt: 'NJF'
-	},
-	{
-		raw: [
-			'Fuentes',
-			'Nick Fuentes',
-			'Nicholas Fuentes',
-			'Nicholas J Fuentes'
-		],
-		fmt: 'Nick Fuentes'
-	},
-	{
-		raw: [
-			'AFPAC',
-			'AFPAK',
-			'F Pack'
-		],
-		fmt: 'AFPAC'
-	},
-	{
-		raw: [
-			'groyper',
-			'groypur',
-			'groipper',
-			'groiper',
-			'grouper',
-			'gripper',
-			'graper',
-			'griper',
-			'criper'
-		],
-		fmt: 'groyper'
-	},
-	{
-		raw: [
-			'Cozy TV',
-			'Cozy Dot TV',
-			'CozyTV'
-		],
-		fmt: 'cozy.tv'
-	},
-	{
-		raw: [
-			'Bronze Age'
-		],
-		fmt: 'Bronze Age'
-	},
-	{
-		raw: [
-			'Claremont',
-			'Clairmont',
-			'Claremount',
-		],
-		fmt: 'Claremont'
-	},
-	{
-		raw: [
-			'National Conservatism',
-			'National Conservative',
-			'NatCon',
-			'Nacon',
-			'Nakon'
-		],
-		fmt: 'NatCon'
-	},
-	{
-		raw: [
-			"Where\'s my keys",
-			"Where is my keys",
-			"Where are my keys"
-		],
-		fmt: "ACTIVATION PHRASE"
-	},
-	{
-		raw: [
-			"Goose"
-		],
-		fmt: "Goose"
-	},
-	{
-		raw: [
-			"Spoods",
-			"Spoons",
-			"Spoodz",
-			"Spooz",
-			"Spuz",
-			"Spoos"
-		],
-		fmt: "Spoods"
-	},
-	{
-		raw: [
-			"Chief Trumpster",
-			"Chief Trump",
-			"Chief Chumster"
-		],
-		fmt: "Chief Trumpster"
-	}
-].map((phrase) => {
-	return {
-		regexp: new RegExp(phrase.raw.join('|'), 'gi'),
-		format: phrase.fmt
-	}
-});
-
-const STATUS = new Set([
-	'pending',
-	'in-progress',
-	'complete',
-	'error'
-]);
+import { SpaceDownloaderOptions } from '../interfaces/SpaceDownloaderOptions.interface';
+import { HlsProgress, RecordingIntegrity } from '../interfaces/Hls.interface';
+import { AudioSegment } from '../interfaces/Audio.interface';
+import { PipelineStage, PipelineStageName, PipelineState } from '../interfaces/Pipeline.interface';
+import { CaptionUtil } from '../utils/CaptionUtil';
+import { EncodingUtil } from '../utils/EncodingUtil';
+import { PipelineUtil } from '../utils/PipelineUtil';
+import { keywordManager } from './KeywordManager';
+import { storageManager } from './StorageManager';
+import { HlsDownloader } from './HlsDownloader';
+import { AudioPostProcessor } from './AudioPostProcessor';
+import { AudioTagger } from './AudioTagger';
+import { AudioClipper } from './AudioClipper';
+import { transcriptionQueue } from './TranscriptionQueue';
+import { spaceStore } from './SpaceStore';
+import { slotManager } from './SlotManager';
+import { APP_TRANSCRIBE_MODEL, APP_PIPELINE_STATE_EXT } from '../constants/app.constant';
+import { PIPELINE_INTERRUPTED_ERROR, PIPELINE_STAGES, PIPELINE_STAGE_SLOTS } from '../constants/pipeline.constant';
 
 export class SpaceDownloader {
+	/**
+	 * Downloaders running their pipeline
+	 */
+	private static active = new Set<SpaceDownloader>();
+	private static is_stopping = false;
+
 	private logger: winston.Logger;
 
 	private directory: string;
 	private playlistUrl: string;
 	private timeStarted: number;
-	public system: {
-		ffmpeg: {
-			status: string,
-			file: string
-		},
-		whisper: {
-			status: string,
-			file: string
-		},
-		captions: {
-			status: string,
-			file: string
-		},
+	private transcribed_phrases: CaptionPhrase[];
+	public integrity: RecordingIntegrity;
+	/**
+	 * Segments (ms) removed by post-processing, captions follow the processed audio
+	 */
+	public removed_segments: AudioSegment[] = [];
+	public clip_files: string[] = [];
+	private interrupted_stage: PipelineStageName;
+	public system: Record<PipelineStageName, PipelineStage> & {
 		phrases: CaptionPhrase[]
 	};
 
@@ -154,220 +54,411 @@ export class SpaceDownloader {
 		private readonly filename: string,
 		private readonly subDir = '',
 		private readonly started_at: number,
-		private readonly metadata?: Record<string, any>
+		private readonly metadata?: Record<string, any>,
+		private readonly options: SpaceDownloaderOptions = {}
 	) {
 		this.logger = baseLogger.child({ label: '[Downloader]' });
 		this.directory = Util.getMediaDir(subDir);
 		this.playlistUrl = originUrl;
 		this.timeStarted = started_at;
+		this.options = PipelineUtil.getOptions(options);
 		this.system = {
-			'ffmpeg': {
-				'status': 'pending',
-				'file': path.join(this.directory, `${filename}.ogg`),
-			},
-			'whisper': {
-				'file': path.join(this.directory, `${filename}.ogg`),
-				'status': 'pending'
-			},
-			'captions': {
-				'file': path.join(this.directory, `${filename}.ogg.vtt`),
-				'status': 'pending'
-			},
+			...PipelineUtil.getStages(this.directory, filename, this.options),
 			'phrases': []
 		};
+		this.load_state();
 	};
 
-	public async download(live = false) {
+	/**
+	 * Files of every output, main output first
+	 */
+	public get output_files(): string[] {
+		return this.options.outputs.map((profile) => path.join(this.directory, EncodingUtil.getFileName(this.filename, profile)));
+	};
+
+	public get state_file(): string {
+		return path.join(this.directory, `${this.filename}${APP_PIPELINE_STATE_EXT}`);
+	};
+
+	public get is_complete(): boolean {
+		return PipelineUtil.isStateComplete({ options: this.options, stages: this.system });
+	};
+
+	public get is_post_processed(): boolean {
+		return AudioPostProcessor.isEnabled(this.options.postProcess);
+	};
+
+	public get is_tagged(): boolean {
+		return PipelineUtil.isTagged(this.options);
+	};
+
+	/**
+	 * Creates a downloader that picks up the pipeline of a state file
+	 */
+	public static fromState(file: string): SpaceDownloader {
+		const state = PipelineUtil.readState(file);
+		return new SpaceDownloader(state.originUrl, state.filename, state.subDir, state.startedAt, state.metadata, state.options);
+	};
+
+	/**
+	 * Stages are not started anymore, a stage that fails from now on is interrupted
+	 */
+	public static stop() {
+		SpaceDownloader.is_stopping = true;
+	};
+
+	/**
+	 * A Space is processed by one downloader at a time
+	 */
+	public static isActive(space_id: string): boolean {
+		return [...SpaceDownloader.active].some((downloader) => downloader.metadata?.episode_id === space_id);
+	};
+
+	/**
+	 * Stages running in active downloaders
+	 */
+	public static getRunningStages(): { file: string, stage: PipelineStageName }[] {
+		return [...SpaceDownloader.active].flatMap((downloader) => PIPELINE_STAGES
+			.filter((name) => downloader.system[name].status === 'in-progress')
+			.map((name) => ({ file: downloader.system[name].file, stage: name })));
+	};
+
+	/**
+	 * Saves running stages of active downloaders as interrupted, so they are run again on resume.
+	 * Returns the interrupted stages
+	 */
+	public static checkpoint(): { file: string, stage: PipelineStageName }[] {
+		const interrupted = [];
+		SpaceDownloader.active.forEach((downloader) => {
+			const name = PIPELINE_STAGES.find((v) => downloader.system[v].status === 'in-progress') || downloader.interrupted_stage;
+			if (!name) {
+				return;
+			}
+			Object.assign(downloader.system[name], { status: 'pending', error: PIPELINE_INTERRUPTED_ERROR, updatedAt: Date.now() });
+			downloader.save_state();
+			interrupted.push({ file: downloader.system[name].file, stage: name });
+		});
+		return interrupted;
+	};
+
+	/**
+	 * Runs stages that are not complete yet, stops at the first failed stage
+	 */
+	public async download() {
+		SpaceDownloader.active.add(this);
+		try {
+			return await this.run_pipeline();
+		} finally {
+			// kept for the checkpoint
+			if (!SpaceDownloader.is_stopping) {
+				SpaceDownloader.active.delete(this);
+			}
+		}
+	};
+
+	private async run_pipeline() {
 		// create directory for downloads
 		Util.createMediaDir(this.subDir);
 
-		if (!live) {
+		if (this.system.ffmpeg.status !== 'complete') {
 			// master playlist url
 			this.playlistUrl = await PeriscopeApi.getFinalPlaylistUrl(this.playlistUrl);
+			// download stream audio
+			await this.run_stage('ffmpeg', () => this.download_audio());
+		}
+		if (this.is_post_processed && this.system.process.status !== 'complete') {
+			await this.run_stage('process', () => this.process_audio());
+		}
+		// transcription disabled for this user
+		if (this.options.transcribe !== false) {
+			if (this.system.whisper.status !== 'complete') {
+				// transcribe audio
+				await this.run_stage('whisper', () => this.transcribe_audio());
+			}
+			await this.upload_stage('whisper');
+			if (this.system.captions.status !== 'complete') {
+				// process captions
+				await this.run_stage('captions', () => this.process_captions());
+			}
+		}
+		if (this.is_tagged && this.system.tags.status !== 'complete') {
+			// chapters need keyword hits
+			await this.run_stage('tags', () => this.tag_audio());
 		}
+		// audio is stored once it is final
+		if (this.is_tagged) {
+			await this.upload_stage('tags');
+		} else {
+			await this.upload_stage(this.is_post_processed ? 'process' : 'ffmpeg');
+		}
+		if (this.options.clips?.enabled && this.options.transcribe !== false) {
+			if (this.system.clips.status !== 'complete') {
+				await this.run_stage('clips', () => this.clip_audio());
+			}
+			await this.upload_stage('clips');
+		}
+		return true;
+	};
 
-		if (this.system.ffmpeg.status === 'pending') {
-			// download stream audio
-			await this.download_audio(live);
+	/**
+	 * Stage of a Space recording, playlist url downloads have no Space id
+	 */
+	private store_stage(name: PipelineStageName) {
+		const space_id = this.metadata?.episode_id;
+		if (!space_id) {
+			return;
 		}
-		if ((this.system.whisper.status === 'pending') && (this.system.ffmpeg.status === 'complete')) {
-			// transcribe audio
-			await this.transcribe_audio(live);
+		spaceStore.setStage(space_id, name, this.system[name].status);
+	};
+
+	private async run_stage(name: PipelineStageName, fn: () => Promise<void>) {
+		if (SpaceDownloader.is_stopping) {
+			throw new Error(`Shutting down, stage ${name} not started`);
+		}
+		const stage = this.system[name];
+		const release = await this.acquire_slot(name);
+		if (SpaceDownloader.is_stopping) {
+			release();
+			throw new Error(`Shutting down, stage ${name} not started`);
+		}
+		stage.status = 'in-progress';
+		this.save_state();
+		this.store_stage(name);
+		try {
+			await fn();
+			stage.status = 'complete';
+			delete stage.error;
+			delete stage.stderr;
+		} catch (error) {
+			if (SpaceDownloader.is_stopping) {
+				// run again on resume, not counted as a retry
+				stage.status = 'pending';
+				stage.error = PIPELINE_INTERRUPTED_ERROR;
+				this.interrupted_stage = name;
+				this.logger.warn(`Stage ${name} interrupted: ${error.message}`);
+				throw error;
+			}
+			stage.status = 'error';
+			stage.error = error.message;
+			stage.stderr = error.stderr;
+			stage.retries += 1;
+			this.logger.error(`Stage ${name} failed (${stage.retries}): ${error.message}`);
+			throw error;
+		} finally {
+			release();
+			stage.updatedAt = Date.now();
+			this.save_state();
+			this.store_stage(name);
+		}
+	};
+
+	/**
+	 * Stage is `waiting` until a slot is free
+	 */
+	private async acquire_slot(name: PipelineStageName): Promise<() => void> {
+		const slot = PIPELINE_STAGE_SLOTS[name];
+		if (!slot) {
+			return () => undefined;
+		}
+		return slotManager.acquire(
+			{ slot, name: this.filename, username: this.options.username, priority: this.options.priority },
+			() => {
+				this.system[name].status = 'waiting';
+				this.save_state();
+				this.store_stage(name);
+			}
+		);
+	};
+
+	/**
+	 * Stores files of a complete stage, a failed upload is tried again on the next run
+	 */
+	private async upload_stage(name: PipelineStageName) {
+		const stage = this.system[name];
+		if (stage.status !== 'complete' || stage.uploaded) {
+			return;
 		}
-		if ((this.system.captions.status === 'pending') && (this.system.whisper.status === 'complete')) {
-			// process captions
-			await this.process_captions(live);
+		// captions are written by the transcription job
+		let files = (name === 'whisper') ? [this.system.captions.file] : this.output_files;
+		if (name === 'clips') {
+			files = this.clip_files.flatMap((file) => [file, file.replace(/\.[^.]+$/, '.vtt')]);
 		}
-		if (this.system.captions.status === 'complete') {
-			return true;
+		if ((name === 'process' || name === 'tags') && this.options.postProcess?.keepOriginal) {
+			files.push(this.system.process.file);
+		}
+		try {
+			await storageManager.upload(files.filter((file) => existsSync(file)));
+			stage.uploaded = true;
+		} catch (error) {
+			this.logger.error(`Failed to upload stage ${name}: ${error.message}`);
+		} finally {
+			this.save_state();
+		}
+	};
+
+	/**
+	 * Restores stage statuses, a stage interrupted while running is run again
+	 */
+	private load_state() {
+		if (!existsSync(this.state_file)) {
+			return;
+		}
+		try {
+			const state = PipelineUtil.readState(this.state_file);
+			PipelineUtil.restoreStages(this.system, state.stages);
+			this.integrity = state.integrity;
+			this.removed_segments = state.removedSegments || [];
+			this.clip_files = state.clipFiles || [];
+			this.logger.info('Pipeline state restored', { stages: PIPELINE_STAGES.map((name) => `${name}:${this.system[name].status}`) });
+		} catch (error) {
+			this.logger.error('Failed to load pipeline state ' + error.message);
 		}
-		return false;
 	};
 
-	private download_audio(live = false): Promise<Boolean> {
+	private save_state() {
+		const state: PipelineState = {
+			originUrl: this.originUrl,
+			filename: this.filename,
+			subDir: this.subDir,
+			startedAt: this.started_at,
+			metadata: this.metadata,
+			options: this.options,
+			stages: Object.fromEntries(PIPELINE_STAGES.map((name) => [name, this.system[name]])) as PipelineState['stages'],
+			integrity: this.integrity,
+			removedSegments: this.removed_segments,
+			clipFiles: this.clip_files,
+			updatedAt: Date.now(),
+		};
+		try {
+			PipelineUtil.writeState(this.state_file, state);
+		} catch (error) {
+			this.logger.error('Failed to save pipeline state ' + error.message);
+		}
+	};
+
+	private async download_audio() {
 		const downloader = this;
-		downloader.system.ffmpeg.status = 'in-progress';
 		downloader.logger.info('Downloading audio...');
 		const time = Date.now();
 
-		const cmd = 'ffmpeg';
-		const args = [];
-		if (live) {
-			// limit to 30 seconds for live transcription
-			args.push('-t', '120');
-		}
-		args.push(
-			'-y',
-			'-protocol_whitelist',
-			'file,https,tls,tcp',
-			'-i',
-			downloader.playlistUrl
+		const [mainProfile, ...profiles] = downloader.options.outputs;
+		const hlsDownloader = new HlsDownloader(
+			downloader.playlistUrl,
+			downloader.system.ffmpeg.file,
+			{
+				outputArgs: EncodingUtil.getOutputArgs(mainProfile),
+				outputs: profiles.map((profile) => ({
+					file: EncodingUtil.getFileName(downloader.filename, profile),
+					args: EncodingUtil.getOutputArgs(profile),
+				})),
+				metadata: downloader.metadata,
+				username: downloader.options.username,
+				expectedDuration: downloader.options.expectedDuration,
+				lastChunkIndex: downloader.options.lastChunkIndex,
+				// every output is post-processed from the joined chunks
+				keepRaw: downloader.is_post_processed,
+			}
 		);
-		// metadata for audio file
-		if (downloader.metadata) {
-			Object.keys(downloader.metadata).forEach((key) => {
-				const value = downloader.metadata[key];
-				if (!value) return;
-				args.push('-metadata', `${key}=${value}`)
-			});
-		}
-		// output file
-		args.push(downloader.system.ffmpeg.file);
-
-		// https://github.com/nodejs/node/issues/21825
-		const spawnOptions: SpawnOptions = {
-			cwd: process.cwd(),
-			stdio: 'ignore',
-			detached: false,
-			windowsHide: true
-		}
-		// eslint-disable-next-line @typescript-eslint/no-unused-vars
-		const cp = process.platform === 'win32'
-			? spawn(process.env.comspec, ['/c', cmd, ...args], spawnOptions)
-			: spawn(cmd, args, spawnOptions);
-
-		return new Promise((resolve, reject) => {
-			cp.on('close', function (code) {
-				downloader.system.ffmpeg.status = 'complete';
-				const elapsed = Math.round((Date.now() - time) / 100) / 10;
-				downloader.logger.info(`Audio downloaded in ${elapsed}s`);
-				resolve(true);
-			});
-			cp.on('error', function (error) {
-				downloader.system.ffmpeg.status = 'error';
-				reject(error);
-			});
+		// log every 10%
+		let lastPercent = 0;
+		hlsDownloader.on('progress', (progress: HlsProgress) => {
+			const percent = Math.floor((progress.downloaded + progress.failed) / progress.total * 10) * 10;
+			if (percent > lastPercent) {
+				lastPercent = percent;
+				downloader.logger.info(`Downloading audio ${percent}%`, progress);
+			}
 		});
+		downloader.integrity = await hlsDownloader.download();
+		const elapsed = Math.round((Date.now() - time) / 100) / 10;
+		downloader.logger.info(`Audio downloaded in ${elapsed}s`);
 	}
 
-	private transcribe_audio(live = false): Promise<Boolean> {
+	/**
+	 * Re-encodes every output from the joined chunks, so no output is encoded from another lossy output
+	 */
+	private async process_audio() {
+		const downloader = this;
+		downloader.logger.info('Post-processing audio...');
+		const original = downloader.system.process.file;
+		// moved in a previous run
+		if (!existsSync(original)) {
+			const raw_file = HlsDownloader.getRawFile(downloader.system.ffmpeg.file);
+			if (!existsSync(raw_file)) {
+				throw new Error(`Joined chunks ${path.basename(raw_file)} not found, download the recording again`);
+			}
+			renameSync(raw_file, original);
+		}
+		const processor = new AudioPostProcessor(original, downloader.options.postProcess);
+		downloader.removed_segments = await processor.process(downloader.options.outputs.map((profile, i) => ({
+			file: downloader.output_files[i],
+			args: EncodingUtil.getOutputArgs(profile, true),
+		})));
+		if (!downloader.options.postProcess.keepOriginal) {
+			unlinkSync(original);
+		}
+	};
+
+	private async tag_audio() {
+		const downloader = this;
+		let chapters = [];
+		if (downloader.options.chapters && downloader.options.transcribe !== false) {
+			const phrases = downloader.system.phrases.length ? downloader.system.phrases : downloader.scan_captions();
+			const duration = await HlsDownloader.probeDuration(downloader.system.tags.file);
+			chapters = AudioTagger.getChapters(phrases, duration, downloader.removed_segments);
+		}
+		await new AudioTagger(downloader.options.coverUrl, chapters).tag(downloader.output_files);
+	};
+
+	/**
+	 * Clips around keyword hits of the captions, which follow the main output
+	 */
+	private async clip_audio() {
+		const downloader = this;
+		const clipper = new AudioClipper(downloader.system.clips.file, downloader.system.captions.file);
+		const hits = clipper.getHits(keywordManager.getKeywords(downloader.options.username));
+		const duration = await HlsDownloader.probeDuration(downloader.system.clips.file);
+		downloader.clip_files = await clipper.cut(AudioClipper.getClips(hits, downloader.options.clips.padding, duration));
+	};
+
+	private async transcribe_audio() {
 		const downloader = this;
-		downloader.system.whisper.status = 'in-progress';
 		downloader.logger.info('Transcribing audio...');
 		downloader.logger.info(downloader.system.whisper.file);
 		const time = Date.now();
 
-		return new Promise((resolve, reject) => {
-			stat(downloader.system.whisper.file)
-				.then((stats) => {
-					const cmd = 'whisper';
-					const args = [
-						downloader.system.whisper.file,
-					];
-					if (live) {
-						args.push('--model', 'base.en');
-					} else {
-						args.push('--model', 'small.en');
-					}
-
-					const spawnOptions: SpawnOptions = {
-						cwd: downloader.directory,
-						stdio: 'pipe',
-						detached: false,
-						windowsHide: true,
-					};
-					// eslint-disable-next-line @typescript-eslint/no-unused-vars
-					const cp = process.platform === 'win32'
-						? spawn(process.env.comspec, ['/c', cmd, ...args], spawnOptions)
-						: spawn(cmd, args, spawnOptions);
-
-					cp.on('close', function (code) {
-						downloader.system.whisper.status = 'complete';
-						const elapsed = Math.round((Date.now() - time) / 100) / 10;
-						downloader.logger.info(`Audio transcribed in ${elapsed}s`);
-						resolve(true);
-					});
-					cp.on('error', function (error) {
-						downloader.system.whisper.status = 'error';
-						downloader.logger.error('Failed to transcribe audio ' + error);
-						reject(error);
-					});
-				})
-				.catch((error) => {
-					downloader.system.whisper.status = 'pending';
-					downloader.logger.error('Failed to load audio file ' + error);
-					resolve(false);
-				});
+		await stat(downloader.system.whisper.file);
+		// captions are processed by the queue as well
+		downloader.transcribed_phrases = await transcriptionQueue.add({
+			username: downloader.options.username,
+			audioFile: downloader.system.whisper.file,
+			captionsFile: downloader.system.captions.file,
+			removedSegments: downloader.removed_segments,
+			transcriber: {
+				...downloader.options.transcriber,
+				model: downloader.options.transcriber?.model || APP_TRANSCRIBE_MODEL,
+			},
+			priority: downloader.options.priority,
 		});
+		const elapsed = Math.round((Date.now() - time) / 100) / 10;
+		downloader.logger.info(`Audio transcribed in ${elapsed}s`);
 	};
 
-	private process_captions(live = false): Promise<boolean> {
+	/**
+	 * Phrases of the captions file, on the Space timeline
+	 */
+	private scan_captions(): CaptionPhrase[] {
+		const keywords = keywordManager.getKeywords(this.options.username);
+		return CaptionUtil.parseFile(this.system.captions.file)
+			.map((cue) => CaptionUtil.toPhrase({ ...cue, start: CaptionUtil.toOriginalTime(cue.start, this.removed_segments) }, keywords));
+	};
+
+	private async process_captions() {
 		const downloader = this;
-		downloader.system.captions.status = 'in-progress';
-		downloader.logger.info('Processing captions...');
-		downloader.logger.info(downloader.system.captions.file);
-		const time = Date.now();
-		const ms_space_elapsed = ((live) && (downloader.timeStarted > 0)) ? (time - downloader.timeStarted) : 0;
-
-		return new Promise((resolve, reject) => {
-			const phrases: CaptionPhrase[] = [];
-			let phrases_matched = 0;
-			let phrases_scanned = 0;
-			let ms_phrase_last = 0;
-
-			stat(downloader.system.captions.file)
-				.then((stats) => {
-					createReadStream(downloader.system.captions.file)
-					.pipe(parse())
-					.on('data', function (node) {
-						if (node.type === 'cue') {
-							// remove non-text characters
-							let text = node.data.text.replace(/[.,#!\^;:{}=_`~()]/g, '');
-							// search captions and bold+underline detected phrases
-							keywords.forEach((keyword) => {
-								if (keyword.regexp.test(text)) {
-									text = text.replaceAll(keyword.regexp, '__**' + keyword.format + '**__');
-									phrases_matched++;
-								}
-							});
-							phrases.push(new CaptionPhrase(node.data.start + ms_space_elapsed, text));
-							// get the last phrase end time
-							if (node.data.end > ms_phrase_last) {
-								ms_phrase_last = node.data.end;
-							}
-							phrases_scanned++;
-						}
-					})
-					.on('finish', function () {
-						downloader.system.captions.status = 'complete';
-						if (phrases_matched >= 1) {
-							downloader.system.phrases = phrases;
-						}
-						const elapsed = Math.round((Date.now() - time) / 100) / 10;
-						downloader.logger.debug(`Captions scanned in ${elapsed}s [${phrases_scanned} phrases/${Math.round(ms_phrase_last/100)/10}s}]`);
-						resolve(true);
-					})
-					.on('error', function(error) {
-						downloader.system.captions.status = 'error';
-						downloader.logger.error('Failed to process captions ' + error);
-						reject(error);
-					});
-				})
-				.catch((error) => {
-					downloader.system.captions.status = 'pending';
-					downloader.logger.error('Failed to load captions file ' + error);
-					resolve(false);
-				});
-		});
+		// transcribed in a previous run, scan the captions file again
+		const phrases = downloader.transcribed_phrases || downloader.scan_captions();
+		if (phrases.some((phrase) => phrase.matches.length)) {
+			downloader.system.phrases = phrases;
+		}
+		downloader.logger.debug(`Captions scanned [${phrases.length} phrases]`);
 	};
-};
\ No newline at end of file
+};
@@ -0,0 +1,235 @@
+import axios from 'axios'
+import EventEmitter from 'events'
+import { writeFileSync } from 'fs'
+import path from 'path'
+import { Cue } from 'subtitle'
+import winston from 'winston'
+import { APP_LIVE_TRANSCRIBE_MIN_DURATION, APP_TRANSCRIBE_LIVE_MODEL } from '../constants/app.constant'
+import { QUEUE_LIVE_PRIORITY } from '../constants/queue.constant'
+import { PlaylistChunk } from '../interfaces/Periscope.interface'
+import { SpaceDownloaderOptions } from '../interfaces/SpaceDownloaderOptions.interface'
+import { CaptionPhrase } from '../interfaces/Twitter.interface'
+import { logger as baseLogger } from '../logger'
+import { CaptionUtil } from '../utils/CaptionUtil'
+import { PeriscopeUtil } from '../utils/PeriscopeUtil'
+import { ProcessUtil } from '../utils/ProcessUtil'
+import { Util } from '../utils/Util'
+import { slotManager } from './SlotManager'
+import { transcriptionQueue } from './TranscriptionQueue'
+
+interface LiveChunk {
+  index: number
+  /**
+   * Start (ms) relative to Space start
+   */
+  offset: number
+  duration: number
+  data?: Buffer
+}
+
+/**
+ * Fetches new chunks of the dynamic playlist & transcribes them in batches.
+ * Emits `phrases` with phrases of each transcribed batch
+ */
+export class SpaceLiveTranscriber extends EventEmitter {
+  private logger: winston.Logger
+
+  private lastChunk: LiveChunk
+  private pendingChunks: LiveChunk[] = []
+  private transcription = Promise.resolve()
+
+  /**
+   * Cues of the whole Space so far, timestamps relative to Space start
+   */
+  public readonly cues: Cue[] = []
+  public readonly phrases: CaptionPhrase[] = []
+
+  constructor(
+    private readonly filename: string,
+    private readonly subDir = '',
+    private readonly startedAt: number,
+    private readonly options: SpaceDownloaderOptions = {},
+  ) {
+    super()
+    this.logger = baseLogger.child({ label: `[SpaceLiveTranscriber] [${filename}]` })
+  }
+
+  public get lastChunkIndex(): number {
+    return this.lastChunk?.index
+  }
+
+  private get directory(): string {
+    return Util.getMediaDir(this.subDir)
+  }
+
+  /**
+   * Audio of the latest batch
+   */
+  public get audioFile(): string {
+    return path.join(this.directory, `${this.filename}.ogg`)
+  }
+
+  /**
+   * Captions of the latest batch
+   */
+  public get captionsFile(): string {
+    return path.join(this.directory, `${this.filename}.vtt`)
+  }
+
+  public get transcriptFile(): string {
+    return path.join(this.directory, `${this.filename}.transcript.vtt`)
+  }
+
+  /**
+   * Fetches chunks not seen yet, transcription runs in background.
+   * Chunks that dropped out of the playlist since the last fetch are fetched from their url pattern
+   */
+  public async fetch(playlistUrl: string): Promise<void> {
+    const { data } = await axios.get<string>(playlistUrl)
+    const newChunks = PeriscopeUtil.getPlaylistChunks(playlistUrl, data)
+      .filter((v) => this.lastChunkIndex === undefined || v.index > this.lastChunkIndex)
+    if (!newChunks.length) {
+      return
+    }
+    const missingChunks = this.getMissingChunks(newChunks[0])
+    const chunks = [...missingChunks, ...newChunks]
+    this.logger.debug(`fetch: ${newChunks.length} new chunks`, { from: newChunks[0].index, to: newChunks[newChunks.length - 1].index })
+    let lostCount = 0
+
+    // eslint-disable-next-line no-restricted-syntax
+    for (const [i, chunk] of chunks.entries()) {
+      const isMissing = i < missingChunks.length
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const { data: buffer } = await axios.get<ArrayBuffer>(chunk.url, { responseType: 'arraybuffer' })
+        const liveChunk: LiveChunk = {
+          index: chunk.index,
+          offset: this.getChunkOffset(chunk, chunks.slice(i)),
+          duration: chunk.duration,
+          data: Buffer.from(buffer),
+        }
+        this.pendingChunks.push(liveChunk)
+        this.lastChunk = liveChunk
+      } catch (error) {
+        if (isMissing) {
+          // Not in the playlist anymore, no other chance to fetch it
+          lostCount += 1
+          // eslint-disable-next-line no-continue
+          continue
+        }
+        // Retry from this chunk in next fetch
+        this.logger.warn(`fetch: Failed to fetch chunk ${chunk.index}: ${error.message}`)
+        break
+      }
+    }
+    if (lostCount) {
+      this.logger.warn(`fetch: ${lostCount} chunk(s) lost`, { from: missingChunks[0].index, to: missingChunks[missingChunks.length - 1].index })
+    }
+
+    const pendingDuration = this.pendingChunks.reduce((sum, v) => sum + v.duration, 0)
+    if (pendingDuration >= APP_LIVE_TRANSCRIBE_MIN_DURATION) {
+      this.flush()
+    }
+  }
+
+  /**
+   * Queues pending chunks for transcription
+   */
+  public flush(): Promise<void> {
+    const chunks = this.pendingChunks
+    this.pendingChunks = []
+    if (chunks.length) {
+      this.transcription = this.transcription
+        .then(() => this.transcribe(chunks))
+        .catch((error) => {
+          this.logger.error(`transcribe: ${error.message}`, { from: chunks[0].index, to: chunks[chunks.length - 1].index })
+        })
+    }
+    return this.transcription
+  }
+
+  /**
+   * Chunks between the last fetched chunk & the first chunk of the playlist,
+   * dropped out of the playlist between two fetches
+   */
+  private getMissingChunks(firstChunk: PlaylistChunk): PlaylistChunk[] {
+    if (this.lastChunkIndex === undefined || firstChunk.index <= this.lastChunkIndex + 1) {
+      return []
+    }
+    const from = this.lastChunkIndex + 1
+    const to = firstChunk.index - 1
+    this.logger.warn(`fetch: Chunks ${from}-${to} dropped out of the playlist, fetching them`)
+    return Array.from({ length: to - from + 1 }, (v, i) => ({
+      index: from + i,
+      url: PeriscopeUtil.getChunkUrl(firstChunk.url, from + i),
+      // Not in the playlist, assume the same duration
+      duration: firstChunk.duration,
+    }))
+  }
+
+  /**
+   * Chunk start relative to Space start,
+   * from program date time, else after the previous chunk & lost chunks, else estimated from remaining chunks
+   */
+  private getChunkOffset(chunk: PlaylistChunk, remainingChunks: PlaylistChunk[]): number {
+    if (chunk.programDateTime && this.startedAt) {
+      return Math.max(0, chunk.programDateTime - this.startedAt)
+    }
+    if (this.lastChunk && this.lastChunk.index < chunk.index) {
+      const lostDuration = (chunk.index - this.lastChunk.index - 1) * chunk.duration
+      return this.lastChunk.offset + this.lastChunk.duration + lostDuration
+    }
+    if (!this.startedAt) {
+      return this.lastChunk ? this.lastChunk.offset + this.lastChunk.duration : 0
+    }
+    const remainingDuration = remainingChunks.reduce((sum, v) => sum + v.duration, 0)
+    return Math.max(0, Date.now() - this.startedAt - remainingDuration)
+  }
+
+  private async transcribe(chunks: LiveChunk[]) {
+    Util.createMediaDir(this.subDir)
+    const time = Date.now()
+    const { offset } = chunks[0]
+    // Chunks are ADTS streams, they can be joined as is
+    const rawFile = path.join(this.directory, `${this.filename}.aac`)
+    writeFileSync(rawFile, Buffer.concat(chunks.map((v) => v.data)))
+    const release = await slotManager.acquire({
+      slot: 'postProcess',
+      name: path.basename(this.audioFile),
+      username: this.options.username,
+      priority: (this.options.priority || 0) + QUEUE_LIVE_PRIORITY,
+    })
+    try {
+      await ProcessUtil.run('ffmpeg', ['-y', '-i', rawFile, this.audioFile])
+    } finally {
+      release()
+    }
+
+    // shares the queue workers with recordings, ahead of them
+    const phrases = await transcriptionQueue.add({
+      username: this.options.username,
+      audioFile: this.audioFile,
+      captionsFile: this.captionsFile,
+      transcriber: {
+        ...this.options.transcriber,
+        model: this.options.transcriber?.model || APP_TRANSCRIBE_LIVE_MODEL,
+      },
+      offset,
+      live: true,
+      priority: (this.options.priority || 0) + QUEUE_LIVE_PRIORITY,
+    })
+    const cues = CaptionUtil.parseFile(this.captionsFile)
+      .map((cue) => ({ ...cue, start: cue.start + offset, end: cue.end + offset }))
+    this.cues.push(...cues)
+    writeFileSync(this.transcriptFile, CaptionUtil.toVtt(this.cues))
+    this.phrases.push(...phrases)
+    const elapsed = Math.round((Date.now() - time) / 100) / 10
+    this.logger.info(`Transcribed ${chunks.length} chunks in ${elapsed}s`, {
+      from: chunks[0].index,
+      to: chunks[chunks.length - 1].index,
+      at: Util.getDisplayTime(offset),
+      phrases: phrases.length,
+    })
+    this.emit('phrases', phrases)
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  appendFileSync, existsSync, readFileSync, renameSync, writeFileSync,
+} from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { SPACE_STORE_FILE_NAME, SPACE_STORE_RESTORE_MAX_AGE } from '../constants/store.constant'
+import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+import { PipelineStageName, PipelineStageStatus } from '../interfaces/Pipeline.interface'
+import { SpaceJournalEntry, SpaceRecord } from '../interfaces/SpaceStore.interface'
+import { logger as baseLogger } from '../logger'
+import { Util } from '../utils/Util'
+
+const INACTIVE_STATES = [
+  AudioSpaceMetadataState.NOT_STARTED,
+  AudioSpaceMetadataState.PRE_PUBLISHED,
+  AudioSpaceMetadataState.CANCELED,
+  AudioSpaceMetadataState.TIMED_OUT,
+]
+
+// keeps each entry type of the union
+type JournalInput<T = SpaceJournalEntry> = T extends unknown ? Omit<T, 'at'> : never
+
+/**
+ * Journal of Spaces seen by watchers: discovery, state transitions, webhook deliveries & pipeline stages.
+ * Each change is appended as a JSON line in the cache directory,
+ * the journal is replayed & compacted on load
+ */
+class SpaceStore {
+  private logger: winston.Logger
+  private isLoaded = false
+  private records = new Map<string, SpaceRecord>()
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[SpaceStore]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  public get file(): string {
+    return path.join(Util.getCacheDir(), SPACE_STORE_FILE_NAME)
+  }
+
+  public load() {
+    this.isLoaded = true
+    this.records.clear()
+    if (!existsSync(this.file)) {
+      return
+    }
+    let invalidCount = 0
+    readFileSync(this.file, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        try {
+          this.apply(JSON.parse(line))
+        } catch (error) {
+          // last line of a process killed while writing
+          invalidCount += 1
+        }
+      })
+    if (invalidCount) {
+      this.logger.warn(`load: ${invalidCount} invalid line(s) skipped`)
+    }
+    this.compact()
+  }
+
+  /**
+   * Rewrites the journal with one snapshot line per Space
+   */
+  public compact() {
+    const lines = [...this.records.values()]
+      .map((record) => JSON.stringify({
+        id: record.id, at: record.updatedAt, type: 'snapshot', record,
+      } as SpaceJournalEntry))
+    try {
+      Util.createCacheDir()
+      const tmpFile = `${this.file}.tmp`
+      writeFileSync(tmpFile, lines.map((line) => `${line}\n`).join(''))
+      renameSync(tmpFile, this.file)
+    } catch (error) {
+      this.logger.error(`compact: ${error.message}`)
+    }
+  }
+
+  public get(id: string): SpaceRecord {
+    if (!this.isLoaded) {
+      this.load()
+    }
+    return this.records.get(id)
+  }
+
+  /**
+   * Spaces that were watched but not handled when the process stopped.
+   * Spaces with a pipeline started are resumed from their state file instead
+   */
+  public getPending(): SpaceRecord[] {
+    if (!this.isLoaded) {
+      this.load()
+    }
+    const minDiscoveredAt = Date.now() - SPACE_STORE_RESTORE_MAX_AGE
+    return [...this.records.values()]
+      .filter((v) => !this.isHandled(v.id))
+      .filter((v) => !INACTIVE_STATES.includes(v.state))
+      .filter((v) => v.discoveredAt >= minDiscoveredAt)
+      .sort((a, b) => a.discoveredAt - b.discoveredAt)
+  }
+
+  /**
+   * Complete, or its recording pipeline started
+   */
+  public isHandled(id: string): boolean {
+    const record = this.get(id)
+    return !!record?.completedAt || !!record?.stage
+  }
+
+  public hasWebhook(id: string, state: AudioSpaceMetadataState): boolean {
+    return !!this.get(id)?.webhooks.some((v) => v.state === state)
+  }
+
+  public discover(id: string, username?: string) {
+    if (this.get(id)) {
+      return
+    }
+    this.append({ id, type: 'discovered', username })
+  }
+
+  public setState(id: string, state: AudioSpaceMetadataState, meta: { username?: string, title?: string } = {}) {
+    const record = this.get(id)
+    const isSame = (key: keyof typeof meta) => !meta[key] || meta[key] === record[key]
+    if (record?.state === state && isSame('username') && isSame('title')) {
+      return
+    }
+    this.append({
+      id, type: 'state', state, ...meta,
+    })
+  }
+
+  public addWebhook(id: string, state: AudioSpaceMetadataState) {
+    this.append({ id, type: 'webhook', state })
+  }
+
+  public setStage(id: string, name: PipelineStageName, status: PipelineStageStatus) {
+    const { stage } = this.get(id) || {}
+    if (stage?.name === name && stage.status === status) {
+      return
+    }
+    this.append({
+      id, type: 'stage', name, status,
+    })
+  }
+
+  public complete(id: string) {
+    if (this.get(id)?.completedAt) {
+      return
+    }
+    this.append({ id, type: 'complete' })
+  }
+
+  private append(input: JournalInput) {
+    if (!this.isLoaded) {
+      this.load()
+    }
+    const entry = { ...input, at: Date.now() } as SpaceJournalEntry
+    this.apply(entry)
+    try {
+      Util.createCacheDir()
+      appendFileSync(this.file, `${JSON.stringify(entry)}\n`)
+    } catch (error) {
+      this.logger.error(`append: ${error.message}`, { id: entry.id, type: entry.type })
+    }
+  }
+
+  private apply(entry: SpaceJournalEntry) {
+    if (entry.type === 'snapshot') {
+      this.records.set(entry.id, entry.record)
+      return
+    }
+    let record = this.records.get(entry.id)
+    if (!record) {
+      record = {
+        id: entry.id, discoveredAt: entry.at, states: [], webhooks: [], updatedAt: entry.at,
+      }
+      this.records.set(entry.id, record)
+    }
+    record.updatedAt = entry.at
+    switch (entry.type) {
+      case 'discovered':
+        record.username = entry.username || record.username
+        break
+      case 'state':
+        record.username = entry.username || record.username
+        record.title = entry.title || record.title
+        if (record.state !== entry.state) {
+          record.state = entry.state
+          record.states.push({ state: entry.state, at: entry.at })
+        }
+        break
+      case 'webhook':
+        record.webhooks.push({ state: entry.state, at: entry.at })
+        break
+      case 'stage':
+        record.stage = { name: entry.name, status: entry.status, at: entry.at }
+        break
+      case 'complete':
+        record.completedAt = entry.at
+        break
+      default:
+    }
+  }
+}
+
+export const spaceStore = new SpaceStore()
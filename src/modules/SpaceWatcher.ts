@@ -6,32 +6,47 @@ import open from 'open';
 import winston from 'winston';
 import { PeriscopeApi } from '../apis/PeriscopeApi';
 import { TwitterApi } from '../apis/TwitterApi';
-import { APP_PLAYLIST_CHUNK_VERIFY_MAX_RETRY, APP_PLAYLIST_REFRESH_INTERVAL, APP_SPACE_ERROR_RETRY_INTERVAL } from '../constants/app.constant';
+import {
+    APP_DOWNLOAD_MAX_RETRY, APP_DOWNLOAD_RETRY_INTERVAL, APP_PLAYLIST_CHUNK_VERIFY_MAX_RETRY, APP_PLAYLIST_REFRESH_INTERVAL, APP_SPACE_ERROR_RETRY_INTERVAL,
+} from '../constants/app.constant';
 import { TWITTER_AUTHORIZATION } from '../constants/twitter.constant';
 import { AudioSpaceMetadataState } from '../enums/Twitter.enum';
 import { AccessChat } from '../interfaces/Periscope.interface';
-import { AudioSpace, AudioSpaceMetadata, LiveVideoStreamStatus, CaptionPhrase } from '../interfaces/Twitter.interface';
+import { AudioSpace, AudioSpaceMetadata, LiveVideoStreamStatus, CaptionPhrase, SpaceTrackedParticipant } from '../interfaces/Twitter.interface';
 import { logger as baseLogger, spaceLogger } from '../logger';
 import { PeriscopeUtil } from '../utils/PeriscopeUtil';
 import { SpaceUtil } from '../utils/SpaceUtil';
+import { TrackedSpaceUtil } from '../utils/TrackedSpaceUtil';
 import { TwitterUtil } from '../utils/TwitterUtil';
 import { Util } from '../utils/Util';
 import { configManager } from './ConfigManager';
 import { Notification } from './Notification';
 import { SpaceDownloader } from './SpaceDownloader';
+import { SpaceLiveTranscriber } from './SpaceLiveTranscriber';
 import { Webhook } from './Webhook';
-import { DateTime } from 'luxon';
+import { alertManager } from './AlertManager';
+import { retentionManager } from './RetentionManager';
+import { spaceStore } from './SpaceStore';
+import { userManager } from './UserManager';
+
+// download not attempted, the Space is not complete
+const SKIPPED = 'skipped';
 
 export class SpaceWatcher extends EventEmitter {
     private logger: winston.Logger;
     private downloader: SpaceDownloader;
+    private liveTranscriber: SpaceLiveTranscriber;
     private audioSpace: AudioSpace;
     private liveStreamStatus: LiveVideoStreamStatus;
     private accessChatData: AccessChat;
     private dynamicPlaylistUrl: string;
     private lastChunkIndex: number;
+    private recordingFilename: string;
+    private recordingDirectory: string;
     private chunkVerifyCount = 0;
+    private downloadRetryCount = 0;
     private isNotificationNotified = false;
+    private isStopped = false;
 
     constructor(public spaceId: string) {
         super();
@@ -63,6 +78,13 @@ export class SpaceWatcher extends EventEmitter {
         return SpaceUtil.getHostName(this.audioSpace);
     };
 
+    /**
+     * Host if tracked, else the tracked participant with the highest role
+     */
+    public get trackedUsername(): string {
+        return SpaceUtil.getTrackedUsername(this.audioSpace);
+    };
+
     private get detected_phrases(): CaptionPhrase[] {
         return this.audioSpace.detected_phrases;
     };
@@ -71,12 +93,38 @@ export class SpaceWatcher extends EventEmitter {
         this.audioSpace.detected_phrases = phrases;
     };
 
+    /**
+     * Rendered once, so files of the Space stay together if its title is edited
+     */
     private get filename(): string {
-        const date = DateTime.fromMillis(this.metadata.started_at || this.metadata.created_at);
-        return Util.getCleanFileName(this.userScreenName) + '-' + date.toFormat('MM-dd-yyyy') + '-' + this.spaceId;
+        if (!this.recordingFilename) {
+            this.recordingFilename = TrackedSpaceUtil.getFileName(this.audioSpace);
+        }
+        return this.recordingFilename;
+    };
+
+    /**
+     * Directory relative to the download root
+     */
+    private get directory(): string {
+        if (this.recordingDirectory === undefined) {
+            this.recordingDirectory = TrackedSpaceUtil.getDirectory(this.audioSpace);
+        }
+        return this.recordingDirectory;
+    };
+
+    /**
+     * Stops polling, a download already started keeps running
+     */
+    public stop() {
+        this.isStopped = true;
+        this.logger.info('Stopped');
     };
 
     public async watch(): Promise<void> {
+        if (this.isStopped) {
+            return;
+        }
         this.logger.info('Watching...');
         this.logger.info(`Space url: ${this.spaceUrl}`);
         try {
@@ -115,7 +163,10 @@ export class SpaceWatcher extends EventEmitter {
             if (!metadata?.creator_results?.result?.rest_id) {
                 delete metadata.creator_results;
             }
+            const trackedParticipants = this.audioSpace?.tracked_participants;
             this.audioSpace = audioSpace;
+            this.updateTrackedParticipants(trackedParticipants);
+            spaceStore.setState(this.spaceId, metadata.state, { username: this.trackedUsername, title: this.spaceTitle });
             //this.logger.info('Host info', { screenName: this.userScreenName, displayName: this.userDisplayName });
         } catch (error) {
             const meta = { requestId };
@@ -139,6 +190,17 @@ export class SpaceWatcher extends EventEmitter {
         }
     };
 
+    /**
+     * Keeps tracked users seen in the Space, participants are not listed anymore once it ended
+     */
+    private updateTrackedParticipants(previous: SpaceTrackedParticipant[] = []) {
+        const participants = SpaceUtil.getTrackedParticipants(this.audioSpace, userManager.getUsers().map((v) => v.username), previous);
+        participants
+            .filter((v) => v.role !== 'host' && !previous.some((prev) => prev.username === v.username && prev.role === v.role))
+            .forEach((v) => this.logger.info(`Tracked user @${v.username} is ${v.role}`));
+        this.audioSpace.tracked_participants = participants;
+    };
+
     private async initData() {
         if (!this.metadata) {
             await this.getSpaceMetadata();
@@ -165,8 +227,13 @@ export class SpaceWatcher extends EventEmitter {
         if (!this.dynamicPlaylistUrl) {
             this.dynamicPlaylistUrl = this.liveStreamStatus.source.location;
             //this.logger.debug('dynamicPlaylistUrl', tthis.dynamicPlaylistUrl);
-            this.logger.debug('Sending webhooks for new dynamic playlist url');
-            this.sendWebhooks(false);
+            // already sent before a restart
+            if (spaceStore.hasWebhook(this.spaceId, this.metadata.state)) {
+                this.logger.debug('Webhooks already sent for this state, skip');
+            } else {
+                this.logger.debug('Sending webhooks for new dynamic playlist url');
+                this.sendWebhooks(false);
+            }
         }
 
         if (!this.accessChatData) {
@@ -198,6 +265,7 @@ export class SpaceWatcher extends EventEmitter {
             id: this.spaceId,
             started_at: this.metadata.started_at,
             title: this.spaceTitle || null,
+            participants: this.audioSpace.tracked_participants,
             playlist_url: PeriscopeUtil.getMasterPlaylistUrl(this.dynamicPlaylistUrl),
         };
         spaceLogger.info(payload);
@@ -233,6 +301,8 @@ export class SpaceWatcher extends EventEmitter {
             if (status === 404) {
                 // Space ended / Host disconnected
                 this.logger.info(`Dynamic playlist status: ${status}`);
+                // Transcribe remaining live chunks
+                this.liveTranscriber?.flush();
                 this.checkMasterPlaylist();
                 return;
             }
@@ -262,10 +332,16 @@ export class SpaceWatcher extends EventEmitter {
     };
 
     private checkDynamicPlaylistWithTimer(ms = APP_PLAYLIST_REFRESH_INTERVAL) {
+        if (this.isStopped) {
+            return;
+        }
         setTimeout(() => this.checkDynamicPlaylist(), ms);
     };
 
     private checkMasterPlaylistWithTimer(ms = APP_PLAYLIST_REFRESH_INTERVAL) {
+        if (this.isStopped) {
+            return;
+        }
         this.logger.info(`Recheck master playlist in ${ms}ms`);
         setTimeout(() => this.checkMasterPlaylist(), ms);
     };
@@ -283,9 +359,33 @@ export class SpaceWatcher extends EventEmitter {
             }
 
             // download space audio
-            await this.downloadAudio(false);
+            const result = await this.downloadAudio(false);
+            if (this.isStopped) {
+                // watched again on next start
+                return;
+            }
+            if (result === SKIPPED) {
+                // not complete, so it is processed again when found again or on next start
+                this.emit('skip');
+                return;
+            }
+            spaceStore.complete(this.spaceId);
+            this.emit('complete');
         } catch (error) {
             this.logger.warn(`processDownload: ${error.message}`);
+            if (this.isStopped) {
+                return;
+            }
+            if (this.downloadRetryCount < APP_DOWNLOAD_MAX_RETRY) {
+                // the pipeline picks up its state file at the failed stage
+                this.downloadRetryCount++;
+                const ms = APP_DOWNLOAD_RETRY_INTERVAL;
+                this.logger.info(`Retry download in ${ms}ms`);
+                setTimeout(() => this.processDownload(), ms);
+                return;
+            }
+            // resumed with the incomplete recordings, on next start or with `recordings resume`
+            this.emit('fail', error);
         }
     };
 
@@ -306,40 +406,81 @@ export class SpaceWatcher extends EventEmitter {
 
     private downloadAudio(live=false) {
         const watcher = this;
-        const metadata = {
-            title: watcher.spaceTitle,
-            author: watcher.userDisplayName,
-            artist: watcher.userDisplayName,
-            episode_id: watcher.spaceId
-        };
-        //watcher.logger.info(`File name: ${watcher.filename}`)
-        //watcher.logger.info(`File metadata: ${JSON.stringify(metadata)}`)
-
-        if ((!watcher.downloader) || (!live)) {
-            watcher.downloader = new SpaceDownloader(
-                watcher.dynamicPlaylistUrl,
-                watcher.filename + ((live) ? '-live' : ''),
-                watcher.userScreenName,
-                watcher.metadata.started_at || watcher.metadata.created_at,
-                metadata
-            );
-            // attempt to download audio
-            return watcher.downloader.download(live)
-                .then((success) => {
-                    if (success) {
-                        if (watcher.downloader) {
-                            watcher.logger.debug('Downloaded audio successfully, found ' + watcher.downloader.system.phrases.length + ' phrases');
-                            if (watcher.downloader.system.phrases.length >= 1) {
-                                watcher.detected_phrases = watcher.downloader.system.phrases;
-                                return watcher.sendWebhooks(true);
-                            }
+        if (watcher.isStopped) {
+            watcher.logger.info('Stopped, skip download');
+            return Promise.resolve(SKIPPED);
+        }
+        if (!TrackedSpaceUtil.isAllowed(watcher.audioSpace, 'record')) {
+            watcher.logger.info('Guest appearance recording disabled, skip download');
+            return Promise.resolve(SKIPPED);
+        }
+        if (!configManager.getUserOptions(watcher.trackedUsername).record) {
+            watcher.logger.info('Audio recording disabled for this user, skip download');
+            return Promise.resolve(SKIPPED);
+        }
+        if (live) {
+            return watcher.transcribeLive();
+        }
+        if (!retentionManager.hasFreeSpace()) {
+            watcher.logger.error('Not enough free disk space, skip download');
+            return Promise.resolve(SKIPPED);
+        }
+        watcher.downloader = new SpaceDownloader(
+            watcher.dynamicPlaylistUrl,
+            watcher.filename,
+            watcher.directory,
+            TrackedSpaceUtil.getStartedAt(watcher.audioSpace),
+            TrackedSpaceUtil.getMetadata(watcher.audioSpace),
+            TrackedSpaceUtil.getDownloaderOptions(watcher.audioSpace, watcher.lastChunkIndex),
+        );
+        // attempt to download audio
+        return watcher.downloader.download()
+            .then((success) => {
+                if (success) {
+                    if (watcher.downloader) {
+                        watcher.audioSpace.recording_integrity = watcher.downloader.integrity;
+                        watcher.audioSpace.clip_files = watcher.downloader.clip_files;
+                        watcher.logger.debug('Downloaded audio successfully, found ' + watcher.downloader.system.phrases.length + ' phrases');
+                        if (watcher.downloader.system.phrases.length >= 1) {
+                            watcher.detected_phrases = watcher.downloader.system.phrases;
+                            alertManager.process(watcher.audioSpace, watcher.detected_phrases, live)
+                                .catch((error) => watcher.logger.error(`alertManager.process: ${error.message}`));
                         }
+                        // final webhook with the recording & its integrity, with or without keyword hits
+                        return watcher.sendWebhooks();
                     }
-                    watcher.downloader = undefined;
-                    delete watcher.downloader;
-                    return [false, false];
-                });
+                }
+                watcher.downloader = undefined;
+                delete watcher.downloader;
+                return [false, false];
+            });
+    };
+
+    /**
+     * Fetches new chunks of the dynamic playlist, only new chunks are transcribed
+     */
+    private transcribeLive() {
+        if (!configManager.getUserOptions(this.trackedUsername).transcribe.enabled) {
+            return Promise.resolve();
         }
+        if (!this.liveTranscriber) {
+            this.liveTranscriber = new SpaceLiveTranscriber(
+                this.filename + '-live',
+                this.directory,
+                TrackedSpaceUtil.getStartedAt(this.audioSpace),
+                TrackedSpaceUtil.getLiveTranscriberOptions(this.audioSpace),
+            );
+            this.liveTranscriber.on('phrases', (phrases: CaptionPhrase[]) => {
+                if (!phrases.some((phrase) => phrase.matches.length)) {
+                    return;
+                }
+                this.detected_phrases = phrases;
+                alertManager.process(this.audioSpace, phrases, true)
+                    .catch((error) => this.logger.error(`alertManager.process: ${error.message}`));
+                this.sendWebhooks(true);
+            });
+        }
+        return this.liveTranscriber.fetch(this.dynamicPlaylistUrl);
     };
 
     private async showNotification() {
@@ -357,12 +498,19 @@ export class SpaceWatcher extends EventEmitter {
         notification.notify();
     };
 
-    private sendWebhooks(live=false) {
+    /**
+     * Attaches the recording in its webhook profile, or the latest live transcription batch
+     */
+    private sendWebhooks(liveBatch=false) {
+        if (!TrackedSpaceUtil.isAllowed(this.audioSpace, 'webhook')) {
+            this.logger.debug('Guest appearance webhooks disabled, skip');
+            return Promise.resolve([]);
+        }
         const webhook = new Webhook(
             this.audioSpace,
             PeriscopeUtil.getMasterPlaylistUrl(this.dynamicPlaylistUrl),
-            this.filename + ((live) ? '-live' : ''),
-            this.userScreenName
+            this.filename + ((liveBatch) ? '-live' : ''),
+            this.directory
         );
         return webhook.send();
     };
@@ -0,0 +1,82 @@
+import { existsSync } from 'fs'
+import path from 'path'
+import winston from 'winston'
+import { Storage, StorageOptions } from '../interfaces/Storage.interface'
+import { logger as baseLogger } from '../logger'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+import { StorageFactory } from './storages/StorageFactory'
+
+/**
+ * Stores recordings & captions with the configured backend, files are written locally first
+ */
+class StorageManager {
+  private logger: winston.Logger
+  private storage: Storage
+  private storageOptions: StorageOptions
+
+  constructor() {
+    this.logger = baseLogger.child({ label: '[StorageManager]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private get config(): StorageOptions {
+    return configManager.config.storage || {}
+  }
+
+  /**
+   * Backend is created again when the config changes
+   */
+  private getStorage(): Storage {
+    if (!this.storage || this.storageOptions !== this.config) {
+      this.storageOptions = this.config
+      this.storage = StorageFactory.create(this.storageOptions)
+    }
+    return this.storage
+  }
+
+  /**
+   * Path relative to the download directory, file name for files outside of it
+   */
+  public getKey(file: string): string {
+    const relativePath = path.relative(Util.getMediaDir(), path.resolve(file))
+    const key = (relativePath.startsWith('..') || path.isAbsolute(relativePath))
+      ? path.basename(file)
+      : relativePath.split(path.sep).join('/')
+    return (this.config.prefix || '') + key
+  }
+
+  /**
+   * Uploads files one by one, throws at the first failure
+   */
+  public async upload(files: string[]): Promise<void> {
+    const storage = this.getStorage()
+    // eslint-disable-next-line no-restricted-syntax
+    for (const file of files) {
+      const key = this.getKey(file)
+      const time = Date.now()
+      // eslint-disable-next-line no-await-in-loop
+      await storage.upload(file, key)
+      if (this.config.backend && this.config.backend !== 'local') {
+        this.logger.info(`Uploaded ${key} in ${Math.round((Date.now() - time) / 100) / 10}s`)
+      }
+    }
+  }
+
+  /**
+   * Url sent in webhooks instead of the file, undefined when links are disabled or not available
+   */
+  public async getWebhookUrl(file: string): Promise<string> {
+    if (!this.config.webhookLinks || !existsSync(file)) {
+      return undefined
+    }
+    try {
+      return await this.getStorage().getUrl(this.getKey(file))
+    } catch (error) {
+      this.logger.error(`getWebhookUrl: ${error.message}`)
+      return undefined
+    }
+  }
+}
+
+export const storageManager = new StorageManager()
@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto'
+import EventEmitter from 'events'
+import {
+  existsSync, readFileSync, renameSync, statSync, writeFileSync,
+} from 'fs'
+import path from 'path'
+import { Cue } from 'subtitle'
+import winston from 'winston'
+import {
+  QUEUE_DONE_MAX_AGE, QUEUE_FILE_NAME, QUEUE_MAX_RETRY, QUEUE_RETRY_DELAY, QUEUE_SPEED_SMOOTHING, QUEUE_WORKERS,
+} from '../constants/queue.constant'
+import { TranscriptionJob, TranscriptionQueueState } from '../interfaces/Queue.interface'
+import { CaptionPhrase } from '../interfaces/Twitter.interface'
+import { logger as baseLogger } from '../logger'
+import { CaptionUtil } from '../utils/CaptionUtil'
+import { Util } from '../utils/Util'
+import { configManager } from './ConfigManager'
+import { keywordManager } from './KeywordManager'
+import { TranscriberFactory } from './transcribers/TranscriberFactory'
+
+export type TranscriptionJobInput = Pick<TranscriptionJob, 'username' | 'audioFile' | 'captionsFile' | 'transcriber' | 'removedSegments' | 'offset' | 'live' | 'priority'>
+
+interface JobWaiter {
+  resolve: (phrases: CaptionPhrase[]) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Transcribes audio & processes captions with a limited number of workers.
+ * Jobs of the long running process are stored on disk & resumed on startup,
+ * jobs of one-off runs stay in memory so they never touch its queue file.
+ * Emits `complete` (job, phrases) & `fail` (job, error)
+ */
+class TranscriptionQueue extends EventEmitter {
+  private logger: winston.Logger
+  private isPersisted = false
+  private isStopped = false
+  private jobs: TranscriptionJob[] = []
+  private stats: TranscriptionQueueState['stats'] = {}
+  private runningJobIds = new Set<string>()
+  private waiters = new Map<string, JobWaiter[]>()
+  private timeout: ReturnType<typeof setTimeout>
+
+  constructor() {
+    super()
+    this.logger = baseLogger.child({ label: '[TranscriptionQueue]' })
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  private get config() {
+    return configManager.config.transcriptionQueue || {}
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  public get file(): string {
+    return path.join(Util.getCacheDir(), QUEUE_FILE_NAME)
+  }
+
+  public load() {
+    if (!existsSync(this.file)) {
+      return
+    }
+    try {
+      const state: TranscriptionQueueState = JSON.parse(readFileSync(this.file, 'utf-8'))
+      this.jobs = state.jobs || []
+      this.stats = state.stats || {}
+    } catch (error) {
+      this.logger.error(`load: ${error.message}`)
+    }
+  }
+
+  /**
+   * Loads jobs from disk, jobs running when the process stopped are queued again.
+   * Live batches are dropped, resumed jobs keep their result until their recording claims it.
+   * Jobs are stored on disk from now on
+   */
+  public resume() {
+    this.isPersisted = true
+    this.load()
+    const minCompletedAt = Date.now() - QUEUE_DONE_MAX_AGE
+    const liveJobs = this.jobs.filter((v) => v.live)
+    this.jobs = this.jobs
+      .filter((v) => !v.live)
+      .filter((v) => v.status !== 'done' || v.completedAt >= minCompletedAt)
+    this.jobs
+      .filter((v) => v.status === 'running')
+      .forEach((job) => Object.assign(job, { status: 'queued' }))
+    if (liveJobs.length) {
+      this.logger.info(`Dropped ${liveJobs.length} live job(s)`)
+    }
+    const jobs = this.getJobs()
+    if (jobs.length) {
+      this.logger.info(`Resuming ${jobs.length} job(s)`)
+    }
+    this.save()
+    this.next()
+  }
+
+  /**
+   * Jobs are not started anymore, a running job that fails is queued again as is
+   */
+  public stop() {
+    this.isStopped = true
+    clearTimeout(this.timeout)
+  }
+
+  /**
+   * Queues a job & resolves with the caption phrases when it is done.
+   * A job already queued for the same audio is reused, a job done after a restart resolves right away
+   */
+  public add(input: TranscriptionJobInput): Promise<CaptionPhrase[]> {
+    let job = this.jobs.find((v) => v.audioFile === input.audioFile)
+    if (job?.status === 'done') {
+      this.remove(job)
+      this.save()
+      if (existsSync(job.captionsFile) && job.size === statSync(input.audioFile).size) {
+        this.logger.info('Job already done', { id: job.id, file: path.basename(job.audioFile) })
+        return Promise.resolve(TranscriptionQueue.toPhrases(CaptionUtil.parseFile(job.captionsFile), job))
+      }
+      job = undefined
+    }
+    if (!job) {
+      job = {
+        ...input,
+        id: randomUUID(),
+        priority: input.priority || 0,
+        status: 'queued',
+        attempts: 0,
+        size: statSync(input.audioFile).size,
+        createdAt: Date.now(),
+      }
+      this.jobs.push(job)
+      this.save()
+    }
+    const { id } = job
+    const promise = new Promise<CaptionPhrase[]>((resolve, reject) => {
+      this.waiters.set(id, [...(this.waiters.get(id) || []), { resolve, reject }])
+    })
+    this.next()
+    if (job.status === 'queued') {
+      const eta = this.getEta(id)
+      this.logger.info('Job queued', {
+        id,
+        file: path.basename(job.audioFile),
+        position: this.getPosition(id),
+        eta: eta === undefined ? null : Util.getDisplayTime(eta),
+      })
+    }
+    return promise
+  }
+
+  /**
+   * Running jobs first, then queued jobs in processing order
+   */
+  public getJobs(): TranscriptionJob[] {
+    return [
+      ...this.jobs.filter((v) => v.status === 'running'),
+      ...this.getQueuedJobs(),
+    ]
+  }
+
+  /**
+   * 0 when running, 1 for the next job to run
+   */
+  public getPosition(id: string): number {
+    const job = this.jobs.find((v) => v.id === id)
+    if (!job) {
+      return -1
+    }
+    if (job.status === 'running') {
+      return 0
+    }
+    return this.getQueuedJobs().indexOf(job) + 1
+  }
+
+  /**
+   * Estimated time (ms) until the job is done, undefined until a job has been completed
+   */
+  public getEta(id: string): number {
+    const { msPerByte } = this.stats
+    if (!msPerByte || !this.jobs.some((v) => v.id === id)) {
+      return undefined
+    }
+    const now = Date.now()
+    const estimate = (job: TranscriptionJob) => job.size * msPerByte
+    // Time (from now) each worker becomes free
+    const workers = this.jobs
+      .filter((v) => v.status === 'running')
+      .map((v) => Math.max(0, estimate(v) - (now - v.startedAt)))
+    const running = this.jobs.find((v) => v.id === id && v.status === 'running')
+    if (running) {
+      return Math.max(0, estimate(running) - (now - running.startedAt))
+    }
+    while (workers.length < this.workerCount) {
+      workers.push(0)
+    }
+    // eslint-disable-next-line no-restricted-syntax
+    for (const job of this.getQueuedJobs()) {
+      workers.sort((a, b) => a - b)
+      const start = Math.max(workers[0], (job.nextAttemptAt || 0) - now)
+      workers[0] = start + estimate(job)
+      if (job.id === id) {
+        return workers[0]
+      }
+    }
+    return undefined
+  }
+
+  private get workerCount(): number {
+    return this.config.workers || QUEUE_WORKERS
+  }
+
+  private getQueuedJobs(): TranscriptionJob[] {
+    return this.jobs
+      .filter((v) => v.status === 'queued')
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt)
+  }
+
+  private save() {
+    if (!this.isPersisted) {
+      return
+    }
+    const state: TranscriptionQueueState = { jobs: this.jobs, stats: this.stats }
+    try {
+      Util.createCacheDir()
+      const tmpFile = `${this.file}.tmp`
+      writeFileSync(tmpFile, JSON.stringify(state, null, 2))
+      renameSync(tmpFile, this.file)
+    } catch (error) {
+      this.logger.error(`save: ${error.message}`)
+    }
+  }
+
+  /**
+   * Starts jobs while workers are free, jobs waiting for a retry are checked again when due
+   */
+  private next() {
+    clearTimeout(this.timeout)
+    if (this.isStopped) {
+      return
+    }
+    const now = Date.now()
+    const jobs = this.getQueuedJobs()
+    jobs
+      .filter((v) => !v.nextAttemptAt || v.nextAttemptAt <= now)
+      .slice(0, Math.max(0, this.workerCount - this.runningJobIds.size))
+      .forEach((job) => this.run(job))
+    const nextAttemptAt = Math.min(...jobs.map((v) => v.nextAttemptAt).filter((v) => v > now))
+    if (Number.isFinite(nextAttemptAt)) {
+      this.timeout = setTimeout(() => this.next(), nextAttemptAt - now)
+    }
+  }
+
+  private async run(job: TranscriptionJob) {
+    const time = Date.now()
+    Object.assign(job, { status: 'running', startedAt: time, attempts: job.attempts + 1 })
+    this.runningJobIds.add(job.id)
+    this.save()
+    this.logger.info('Job started', { id: job.id, file: path.basename(job.audioFile), attempt: job.attempts })
+
+    const waiters = () => this.waiters.get(job.id) || []
+    try {
+      const phrases = await this.process(job)
+      const elapsed = Date.now() - time
+      if (job.size) {
+        const msPerByte = elapsed / job.size
+        this.stats.msPerByte = this.stats.msPerByte
+          ? this.stats.msPerByte * (1 - QUEUE_SPEED_SMOOTHING) + msPerByte * QUEUE_SPEED_SMOOTHING
+          : msPerByte
+      }
+      if (waiters().length || job.live) {
+        waiters().forEach((v) => v.resolve(phrases))
+        this.remove(job)
+      } else {
+        // resumed job, kept until its recording reaches transcription
+        Object.assign(job, { status: 'done', completedAt: Date.now() })
+      }
+      this.logger.info(`Job completed in ${Util.getDisplayTime(elapsed)}`, { id: job.id, phrases: phrases.length })
+      this.emit('complete', job, phrases)
+    } catch (error) {
+      // a live batch waiting for its retry would hold up the next batches
+      const retries = job.live ? 0 : (this.config.retries ?? QUEUE_MAX_RETRY)
+      if (this.isStopped) {
+        Object.assign(job, { status: 'queued', attempts: job.attempts - 1 })
+        this.logger.warn(`Job interrupted: ${error.message}`, { id: job.id })
+      } else if (job.attempts <= retries) {
+        const delay = (this.config.retryDelay ?? QUEUE_RETRY_DELAY) * 2 ** (job.attempts - 1)
+        Object.assign(job, { status: 'queued', nextAttemptAt: Date.now() + delay, error: error.message })
+        this.logger.warn(`Job failed, retry in ${delay}ms: ${error.message}`, { id: job.id, attempt: job.attempts })
+      } else {
+        waiters().forEach((v) => v.reject(error))
+        this.remove(job)
+        this.logger.error(`Job failed: ${error.message}`, { id: job.id, attempts: job.attempts })
+        this.emit('fail', job, error)
+      }
+    } finally {
+      this.runningJobIds.delete(job.id)
+      this.save()
+      this.next()
+    }
+  }
+
+  private remove(job: TranscriptionJob) {
+    this.jobs = this.jobs.filter((v) => v !== job)
+    this.waiters.delete(job.id)
+  }
+
+  /**
+   * Transcribes audio, writes captions & scans them for keywords
+   */
+  // eslint-disable-next-line class-methods-use-this
+  private async process(job: TranscriptionJob): Promise<CaptionPhrase[]> {
+    const cues = await TranscriberFactory.create(job.transcriber).transcribe(job.audioFile)
+    // every backend is normalized to the same vtt file
+    writeFileSync(job.captionsFile, CaptionUtil.toVtt(cues))
+    return TranscriptionQueue.toPhrases(cues, job)
+  }
+
+  /**
+   * Phrases on the Space timeline
+   */
+  private static toPhrases(cues: Cue[], job: TranscriptionJob): CaptionPhrase[] {
+    const keywords = keywordManager.getKeywords(job.username)
+    return cues.map((cue) => CaptionUtil.toPhrase(
+      { ...cue, start: CaptionUtil.toOriginalTime(cue.start, job.removedSegments) },
+      keywords,
+      job.offset,
+    ))
+  }
+}
+
+export const transcriptionQueue = new TranscriptionQueue()
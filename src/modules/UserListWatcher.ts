@@ -3,6 +3,7 @@ import EventEmitter from 'events'
 import winston from 'winston'
 import { TwitterApi } from '../apis/TwitterApi'
 import { TWITTER_API_LIST_SIZE, TWITTER_AUTHORIZATION } from '../constants/twitter.constant'
+import { APP_USER_LIST_MIN_CHECK_DELAY } from '../constants/app.constant'
 import { SpaceState } from '../enums/Twitter.enum'
 import { twitterSpaceApiLimiter } from '../Limiter'
 import { logger as baseLogger } from '../logger'
@@ -11,6 +12,9 @@ import { User, userManager } from './UserManager'
 
 export class UserListWatcher extends EventEmitter {
   private logger: winston.Logger
+  private nextCheckTimes: Record<string, number> = {}
+  private isStopped = false
+  private timeout: ReturnType<typeof setTimeout>
 
   constructor() {
     super()
@@ -22,14 +26,41 @@ export class UserListWatcher extends EventEmitter {
     this.getUserSpaces()
   }
 
+  public stop() {
+    this.logger.info('Stopped')
+    this.isStopped = true
+    clearTimeout(this.timeout)
+  }
+
   private async getUserSpaces() {
+    if (this.isStopped) {
+      return
+    }
+    const now = Date.now()
     const users = userManager.getUsersWithId()
+      .filter((user) => (this.nextCheckTimes[user.username] || 0) <= now)
     if (users.length) {
+      users.forEach((user) => {
+        this.nextCheckTimes[user.username] = now + Util.getUserRefreshInterval(user.username)
+      })
       this.logger.debug('getUserSpaces', { userCount: users.length })
       const userChunks = Util.splitArrayIntoChunk(users, TWITTER_API_LIST_SIZE)
       await Promise.allSettled(userChunks.map((userChunk) => twitterSpaceApiLimiter.schedule(() => this.getSpaces(userChunk))))
     }
-    setTimeout(() => this.getUserSpaces(), Util.getUserRefreshInterval())
+    if (this.isStopped) {
+      return
+    }
+    this.timeout = setTimeout(() => this.getUserSpaces(), this.getNextCheckDelay())
+  }
+
+  /**
+   * Users can have their own interval, wait until the next user is due
+   */
+  private getNextCheckDelay() {
+    const now = Date.now()
+    const delays = userManager.getUsersWithId()
+      .map((user) => (this.nextCheckTimes[user.username] || now) - now)
+    return Math.max(APP_USER_LIST_MIN_CHECK_DELAY, Math.min(Util.getUserRefreshInterval(), ...delays))
   }
 
   private async getSpaces(users: User[]) {
@@ -39,6 +70,7 @@ export class UserListWatcher extends EventEmitter {
     this.logger.debug('--> getSpaces', { requestId, userCount: usernames.length })
     try {
       const liveSpaceIds: string[] = []
+      const scheduledSpaceIds: string[] = []
       if (Util.getTwitterAuthorization()) {
         const { data: spaces } = await TwitterApi.getSpacesByCreatorIds(
           userIds,
@@ -50,6 +82,11 @@ export class UserListWatcher extends EventEmitter {
             .filter((v) => v.state === SpaceState.LIVE)
             .map((v) => v.id),
         )
+        scheduledSpaceIds.push(
+          ...(spaces || [])
+            .filter((v) => v.state === SpaceState.SCHEDULED)
+            .map((v) => v.id),
+        )
       } else if (Util.getTwitterAuthToken()) {
         const data = await TwitterApi.getSpacesByFleetsAvatarContent(
           userIds,
@@ -70,6 +107,10 @@ export class UserListWatcher extends EventEmitter {
         this.logger.debug(`Live Spaces: ${uniqueSpaceIds.join(', ')}`)
         uniqueSpaceIds.forEach((id) => this.emit('data', id));
       }
+      if (scheduledSpaceIds.length) {
+        this.logger.debug(`Scheduled Spaces: ${scheduledSpaceIds.join(', ')}`)
+        scheduledSpaceIds.forEach((id) => this.emit('scheduled', id))
+      }
     } catch (error) {
       this.logger.error(`getSpaces: ${error.message}`, {
         requestId,
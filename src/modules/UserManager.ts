@@ -53,6 +53,11 @@ class UserManager extends EventEmitter {
     await this.fetchUsers()
   }
 
+  public remove(usernames: string[]) {
+    this.logger.debug('remove', { usernames })
+    this.users = this.users.filter((user) => !usernames.some((username) => username.toLowerCase() === user.username.toLowerCase()))
+  }
+
   private updateUser(user: User) {
     if (!user) {
       return
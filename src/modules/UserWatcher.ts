@@ -13,6 +13,8 @@ export class UserWatcher extends EventEmitter {
   private logger: winston.Logger
 
   private cacheSpaceIds = new Set<string>()
+  private timeout: ReturnType<typeof setTimeout>
+  private isStopped = false
 
   constructor(public username: string) {
     super()
@@ -36,8 +38,17 @@ export class UserWatcher extends EventEmitter {
     this.getSpaces()
   }
 
+  public stop() {
+    this.logger.info('Stopped')
+    this.isStopped = true
+    clearTimeout(this.timeout)
+  }
+
   private async getSpaces() {
-    if (this.user.id) {
+    if (this.isStopped) {
+      return
+    }
+    if (this.user?.id) {
       try {
         await configManager.getGuestToken()
         await this.getUserTweets()
@@ -45,7 +56,10 @@ export class UserWatcher extends EventEmitter {
         this.logger.error(`getSpaces: ${error.message}`)
       }
     }
-    setTimeout(() => this.getSpaces(), Util.getUserRefreshInterval())
+    if (this.isStopped) {
+      return
+    }
+    this.timeout = setTimeout(() => this.getSpaces(), Util.getUserRefreshInterval(this.username))
   }
 
   private async getUserTweets() {
@@ -81,6 +95,10 @@ export class UserWatcher extends EventEmitter {
       const { state } = data.data.audioSpace.metadata
       this.logger.debug('<-- getAudioSpaceById', { id, state })
       this.cacheSpaceIds.add(id)
+      if ([AudioSpaceMetadataState.NOT_STARTED, AudioSpaceMetadataState.PRE_PUBLISHED].includes(state)) {
+        this.emit('scheduled', id)
+        return
+      }
       if (state !== AudioSpaceMetadataState.RUNNING) {
         return
       }
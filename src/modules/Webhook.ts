@@ -1,4 +1,3 @@
-import { time } from '@discordjs/builders'
 import axios, { AxiosRequestConfig } from 'axios'
 import winston from 'winston'
 import fs from 'fs';
@@ -6,10 +5,15 @@ import path from 'path';
 import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
 import { AudioSpace } from '../interfaces/Twitter.interface'
 import { logger as baseLogger } from '../logger'
+import { EncodingUtil } from '../utils/EncodingUtil'
 import { Util } from '../utils/Util'
 import { SpaceUtil } from '../utils/SpaceUtil'
 import { TwitterUtil } from '../utils/TwitterUtil'
+import { WebhookUtil } from '../utils/WebhookUtil'
 import { configManager } from './ConfigManager'
+import { slotManager } from './SlotManager'
+import { spaceStore } from './SpaceStore'
+import { storageManager } from './StorageManager'
 import FormData from 'form-data';
 
 const ms_to_hhmmss = function (ms: number): string {
@@ -44,8 +48,12 @@ export class Webhook {
 	) {
 		this.audiospace = audioSpace;
 		this.directory = Util.getMediaDir(subDir);
-		this.audioFile = path.join(this.directory, `${filename}.ogg`);
-		const username = SpaceUtil.getHostUsername(audioSpace);
+		const username = SpaceUtil.getTrackedUsername(audioSpace);
+		const [profile] = configManager.getEncodingProfiles([configManager.getUserOptions(username).audio.webhook]);
+		// scheduled & canceled Spaces have no recording
+		if (filename) {
+			this.audioFile = path.join(this.directory, EncodingUtil.getFileName(filename, profile));
+		}
 		const spaceId = SpaceUtil.getId(audioSpace);
 		this.logger = baseLogger.child({ label: `[Webhook] [${username}] [${spaceId}]` });
 	};
@@ -55,12 +63,36 @@ export class Webhook {
 		return configManager.config?.webhooks
 	};
 
-	public send() {
+	public async send() {
 		const space_info = this.getSpaceInfo();
-		return Promise.all([
-			this.send_discord(space_info),
-			this.send_cozy_captions(space_info)
-		]);
+		let results;
+		if (!this.audioFile) {
+			results = await Promise.all([this.send_discord(space_info)]);
+		} else {
+			// webhooks with a recording are limited, live notifications are not
+			const release = fs.existsSync(this.audioFile)
+				? await slotManager.acquire({
+					slot: 'webhooks',
+					name: path.basename(this.audioFile),
+					username: SpaceUtil.getTrackedUsername(this.audioSpace),
+				})
+				: () => undefined;
+			try {
+				// link to the stored audio instead of attaching it
+				space_info.audio_url = await storageManager.getWebhookUrl(this.audioFile);
+				results = await Promise.all([
+					this.send_discord(space_info),
+					this.send_cozy_captions(space_info)
+				]);
+			} finally {
+				release();
+			}
+		}
+		// a failed delivery is sent again when the Space is watched again
+		if (results[0]) {
+			spaceStore.addWebhook(SpaceUtil.getId(this.audioSpace), this.audioSpace.metadata.state);
+		}
+		return results;
 	};
 
 	private async send_discord(space_info) {
@@ -81,8 +113,8 @@ export class Webhook {
 				.map((v) => v.toLowerCase())
 			// don't send if no urls or usernames
 			if ((urls.length < 1) && (usernames.length < 1)) continue;
-			// unknown
-			// if (!usernames.find((v) => v === '<all>') && usernames.every((v) => !SpaceUtil.isParticipant(this.audioSpace, v))) continue;
+			// check if discord webhook is routed for this user & one of the usernames hosts or joined the space
+			if (!WebhookUtil.isRecipient(config, this.audioSpace, usernames)) continue;
 
 			let content = '';
 			// mention discord users about live space
@@ -102,6 +134,11 @@ export class Webhook {
 					.map((v) => v.trim())
 					.join(' ');
 			}
+			// mention discord users about scheduled & canceled space
+			content = [content, WebhookUtil.getScheduleMessage(config, this.audioSpace.metadata.state)]
+				.filter((v) => v)
+				.map((v) => v.trim())
+				.join(' ');
 			// mention discord users about ended space
 			if (this.audioSpace.metadata.state === AudioSpaceMetadataState.ENDED) {
 				content = [content, config.endMessage]
@@ -119,15 +156,17 @@ export class Webhook {
 				};
 				// prepare discord webhook file payload
 				let payloadFile;
-				await fs.promises.stat(this.audioFile)
-					.then((stats) => {
-						if (stats) {
-							payloadFile = this.audio_payload();
-						}
-					})
-					.catch((error) => {
-						this.logger.error('Failed to locate audio file');
-					});
+				if (this.audioFile && !space_info.audio_url) {
+					await fs.promises.stat(this.audioFile)
+						.then((stats) => {
+							if (stats) {
+								payloadFile = this.audio_payload();
+							}
+						})
+						.catch((error) => {
+							this.logger.error('Failed to locate audio file');
+						});
+				}
 				// send discord webhooks
 				for(let j=0; j<urls.length; j++) {
 					if (payload) {
@@ -136,6 +175,10 @@ export class Webhook {
 					if (payloadFile) {
 						await payloadFile.submit(urls[j]);
 					}
+					const clipsPayload = WebhookUtil.getClipsPayload(this.audioSpace);
+					if (clipsPayload) {
+						await clipsPayload.submit(urls[j]);
+					}
 				}
 			} catch (error) {
 				this.logger.error(`Failed to send Discord webhooks: ${error.message}`);
@@ -177,16 +220,19 @@ export class Webhook {
 			'date_started': new Date(),
 			'captions': [],
 			'speakers': [],
+			'recording': this.audioSpace.recording_integrity,
+			'participants': (this.audioSpace.tracked_participants || []).filter((v) => v.role !== 'host'),
+			'audio_url': undefined,
 			'listener_count': undefined
 		};
 
 		// category
-		const space_host = (configManager.config?.users || []).find((user) => user.username.toLowerCase() === info.host.toLowerCase());
+		const space_host = configManager.getUserConfig(SpaceUtil.getTrackedUsername(this.audioSpace));
 		if (space_host) {
 		  	info.category = space_host?.category ?? "Other";
 		}
 		// color
-		const space_category = (configManager.config?.categories || []).find((category) => category.name.toLowerCase() === info.category.toLowerCase());
+		const space_category = configManager.getCategoryConfig(info.category);
 		if (space_category) {
 			info.color = space_category?.color ?? "#a0a0a1";
 		}
@@ -251,6 +297,9 @@ export class Webhook {
 			}
 		}
 
+		// space scheduled or canceled
+		fields.push(...WebhookUtil.getScheduleFields(this.audioSpace, space_info.space_url));
+
 		// space ended
 		if ([AudioSpaceMetadataState.ENDED].includes(this.audioSpace.metadata.state as any)) {
 			if (this.audioSpace.metadata.ended_at) {
@@ -262,6 +311,9 @@ export class Webhook {
 			}
 		}
 
+		// tracked guests, recording integrity & stored audio
+		fields.push(...WebhookUtil.getRecordingFields(space_info.participants, space_info.recording, space_info.audio_url, this.audioFile));
+
 		// captions snapshot
 		if (space_info.captions.length >= 1) {
 			const captions = space_info.captions.map((caption) => ms_to_hhmmss(caption.ts) + ' ' + caption.text);
@@ -310,13 +362,7 @@ export class Webhook {
 	};
 
 	public static embed_local_time(ms: number) {
-		if (!ms) {
-			return null;
-		}
-		return [
-			time(Math.floor(ms / 1000)),
-			time(Math.floor(ms / 1000), 'R'),
-		].join('\n');
+		return WebhookUtil.getLocalTime(ms);
 	}
 
 	private audio_payload() {
@@ -0,0 +1,35 @@
+import { copyFile, mkdir } from 'fs/promises'
+import path from 'path'
+import { Storage, StorageOptions } from '../../interfaces/Storage.interface'
+import { Util } from '../../utils/Util'
+
+/**
+ * Files are already written to the download directory, they are only copied when another directory is set
+ */
+export class LocalStorage implements Storage {
+  private readonly options: StorageOptions
+
+  constructor(options: StorageOptions = {}) {
+    this.options = options
+  }
+
+  private get dir(): string {
+    return path.resolve(this.options.dir || Util.getMediaDir())
+  }
+
+  public async upload(file: string, key: string): Promise<void> {
+    const target = path.join(this.dir, key)
+    if (path.resolve(file) === target) {
+      return
+    }
+    await mkdir(path.dirname(target), { recursive: true })
+    await copyFile(file, target)
+  }
+
+  public async getUrl(key: string): Promise<string> {
+    if (!this.options.publicUrl) {
+      return undefined
+    }
+    return `${this.options.publicUrl.replace(/\/+$/, '')}/${key.split('/').map(encodeURIComponent).join('/')}`
+  }
+}
@@ -0,0 +1,209 @@
+import axios, { Method } from 'axios'
+import { createHash, createHmac } from 'crypto'
+import { open, stat } from 'fs/promises'
+import winston from 'winston'
+import {
+  STORAGE_PART_MAX_RETRY,
+  STORAGE_PART_MIN_SIZE,
+  STORAGE_PART_SIZE,
+  STORAGE_PRESIGN_EXPIRY,
+  STORAGE_S3_REGION,
+} from '../../constants/storage.constant'
+import { S3StorageOptions, Storage, StorageOptions } from '../../interfaces/Storage.interface'
+import { logger as baseLogger } from '../../logger'
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+/**
+ * S3 compatible storage (AWS, MinIO, ...) with multipart uploads, requests are signed with AWS Signature V4
+ * @see https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+ */
+export class S3Storage implements Storage {
+  private logger: winston.Logger
+  private readonly options: StorageOptions
+
+  constructor(options: StorageOptions = {}) {
+    this.options = options
+    this.logger = baseLogger.child({ label: '[S3Storage]' })
+  }
+
+  private get s3(): S3StorageOptions {
+    return this.options.s3 || {} as S3StorageOptions
+  }
+
+  private get region(): string {
+    return this.s3.region || STORAGE_S3_REGION
+  }
+
+  private get accessKeyId(): string {
+    return this.s3.accessKeyId || process.env.AWS_ACCESS_KEY_ID
+  }
+
+  private get secretAccessKey(): string {
+    return this.s3.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY
+  }
+
+  public async upload(file: string, key: string): Promise<void> {
+    if (!this.s3.bucket) {
+      throw new Error('Missing bucket of s3 storage')
+    }
+    const { size } = await stat(file)
+    const partSize = Math.max(STORAGE_PART_MIN_SIZE, this.s3.partSize || STORAGE_PART_SIZE) * 1024 * 1024
+    const partCount = Math.max(1, Math.ceil(size / partSize))
+    const { data } = await this.request('POST', key, { uploads: '' })
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec(data)?.[1]
+    if (!uploadId) {
+      throw new Error('Missing upload id')
+    }
+    this.logger.debug('upload', { key, size, partCount })
+    try {
+      const etags: string[] = []
+      const handle = await open(file, 'r')
+      try {
+        for (let i = 0; i < partCount; i += 1) {
+          const buffer = Buffer.alloc(Math.min(partSize, size - i * partSize))
+          // eslint-disable-next-line no-await-in-loop
+          await handle.read(buffer, 0, buffer.length, i * partSize)
+          // eslint-disable-next-line no-await-in-loop
+          etags.push(await this.uploadPart(key, uploadId, i + 1, buffer))
+        }
+      } finally {
+        await handle.close()
+      }
+      const body = [
+        '<CompleteMultipartUpload>',
+        ...etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`),
+        '</CompleteMultipartUpload>',
+      ].join('')
+      await this.request('POST', key, { uploadId }, body, { 'content-type': 'application/xml' })
+    } catch (error) {
+      await this.request('DELETE', key, { uploadId })
+        .catch((abortError) => this.logger.warn(`Failed to abort upload of ${key}: ${abortError.message}`))
+      throw error
+    }
+  }
+
+  public async getUrl(key: string): Promise<string> {
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, '')}/${key.split('/').map(S3Storage.encode).join('/')}`
+    }
+    return this.getPresignedUrl('GET', key, this.s3.presignExpiry || STORAGE_PRESIGN_EXPIRY)
+  }
+
+  public getPresignedUrl(method: Method, key: string, expiry: number, date = new Date()): string {
+    const { host, path } = this.getObjectLocation(key)
+    const amzDate = S3Storage.getAmzDate(date)
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.accessKeyId}/${this.getScope(amzDate)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiry),
+      'X-Amz-SignedHeaders': 'host',
+    }
+    query['X-Amz-Signature'] = this.getSignature(method, path, query, { host }, amzDate)
+    return `${this.getOrigin(host)}${path}?${S3Storage.getCanonicalQuery(query)}`
+  }
+
+  private async uploadPart(key: string, uploadId: string, partNumber: number, buffer: Buffer): Promise<string> {
+    let attempt = 0
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      attempt += 1
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const { headers } = await this.request('PUT', key, { partNumber: String(partNumber), uploadId }, buffer)
+        return headers.etag
+      } catch (error) {
+        if (attempt > STORAGE_PART_MAX_RETRY) {
+          throw error
+        }
+        this.logger.debug(`Retry part ${partNumber} of ${key} (${attempt}/${STORAGE_PART_MAX_RETRY}): ${error.message}`)
+      }
+    }
+  }
+
+  private request(method: Method, key: string, query: Record<string, string>, data?: Buffer | string, extraHeaders: Record<string, string> = {}) {
+    const { host, path } = this.getObjectLocation(key)
+    const amzDate = S3Storage.getAmzDate(new Date())
+    const headers = {
+      host,
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': amzDate,
+    }
+    const signedHeaders = Object.keys(headers).sort().join(';')
+    const signature = this.getSignature(method, path, query, headers, amzDate)
+    const authorization = `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${this.getScope(amzDate)}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    return axios.request<string>({
+      method,
+      url: `${this.getOrigin(host)}${path}?${S3Storage.getCanonicalQuery(query)}`,
+      headers: {
+        'x-amz-content-sha256': headers['x-amz-content-sha256'],
+        'x-amz-date': amzDate,
+        authorization,
+        ...extraHeaders,
+      },
+      data,
+      responseType: 'text',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    })
+  }
+
+  private getObjectLocation(key: string): { host: string, path: string } {
+    const endpoint = new URL(this.s3.endpoint || `https://s3.${this.region}.amazonaws.com`)
+    const basePath = endpoint.pathname.replace(/\/+$/, '')
+    const encodedKey = key.split('/').map(S3Storage.encode).join('/')
+    if (this.s3.forcePathStyle === false) {
+      return { host: `${this.s3.bucket}.${endpoint.host}`, path: `${basePath}/${encodedKey}` }
+    }
+    return { host: endpoint.host, path: `${basePath}/${this.s3.bucket}/${encodedKey}` }
+  }
+
+  private getOrigin(host: string): string {
+    const { protocol } = new URL(this.s3.endpoint || 'https://s3.amazonaws.com')
+    return `${protocol}//${host}`
+  }
+
+  private getScope(amzDate: string): string {
+    return `${amzDate.substring(0, 8)}/${this.region}/s3/aws4_request`
+  }
+
+  private getSignature(method: string, path: string, query: Record<string, string>, headers: Record<string, string>, amzDate: string): string {
+    const keys = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method.toUpperCase(),
+      path,
+      S3Storage.getCanonicalQuery(query),
+      keys.map((key) => `${key}:${headers[key]}\n`).join(''),
+      keys.join(';'),
+      UNSIGNED_PAYLOAD,
+    ].join('\n')
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      this.getScope(amzDate),
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n')
+    const signingKey = [amzDate.substring(0, 8), this.region, 's3', 'aws4_request']
+      .reduce((hmacKey: Buffer | string, value) => createHmac('sha256', hmacKey).update(value).digest(), `AWS4${this.secretAccessKey}`)
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+  }
+
+  private static getCanonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map((key) => `${this.encode(key)}=${this.encode(query[key])}`)
+      .join('&')
+  }
+
+  /**
+   * `20130524T000000Z`
+   */
+  private static getAmzDate(date: Date): string {
+    return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  }
+
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  }
+}
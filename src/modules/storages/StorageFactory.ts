@@ -0,0 +1,15 @@
+import { Storage, StorageOptions } from '../../interfaces/Storage.interface'
+import { LocalStorage } from './LocalStorage'
+import { S3Storage } from './S3Storage'
+
+export class StorageFactory {
+  public static create(options: StorageOptions = {}): Storage {
+    switch (options.backend) {
+      case 's3':
+        return new S3Storage(options)
+      case 'local':
+      default:
+        return new LocalStorage(options)
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { WhisperTranscriber } from './WhisperTranscriber'
+
+/**
+ * Same arguments as openai-whisper
+ * @see https://github.com/Softcatala/whisper-ctranslate2
+ */
+export class FasterWhisperTranscriber extends WhisperTranscriber {
+  // eslint-disable-next-line class-methods-use-this
+  protected get defaultBinary() {
+    return 'whisper-ctranslate2'
+  }
+}
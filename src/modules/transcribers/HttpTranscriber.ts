@@ -0,0 +1,40 @@
+import axios from 'axios'
+import FormData from 'form-data'
+import { createReadStream } from 'fs'
+import path from 'path'
+import { Cue } from 'subtitle'
+import { APP_TRANSCRIBE_MODEL } from '../../constants/app.constant'
+import { Transcriber, TranscriberOptions } from '../../interfaces/Transcriber.interface'
+import { CaptionUtil } from '../../utils/CaptionUtil'
+
+/**
+ * Sends audio to a local transcription server with an OpenAI compatible API
+ * @see https://platform.openai.com/docs/api-reference/audio/createTranscription
+ */
+export class HttpTranscriber implements Transcriber {
+  private readonly options: TranscriberOptions
+
+  constructor(options: TranscriberOptions = {}) {
+    this.options = options
+  }
+
+  public async transcribe(audioFile: string): Promise<Cue[]> {
+    if (!this.options.url) {
+      throw new Error('Missing url of http transcriber')
+    }
+    const form = new FormData()
+    form.append('file', createReadStream(audioFile), path.basename(audioFile))
+    form.append('model', this.options.model || APP_TRANSCRIBE_MODEL)
+    form.append('response_format', 'vtt')
+    if (this.options.language) {
+      form.append('language', this.options.language)
+    }
+    const { data } = await axios.post<string>(this.options.url, form, {
+      headers: form.getHeaders(),
+      responseType: 'text',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    })
+    return CaptionUtil.parse(typeof data === 'string' ? data : JSON.stringify(data))
+  }
+}
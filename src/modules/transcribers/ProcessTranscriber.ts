@@ -0,0 +1,64 @@
+import { existsSync, unlinkSync } from 'fs'
+import path from 'path'
+import { Cue } from 'subtitle'
+import winston from 'winston'
+import { Transcriber, TranscriberOptions } from '../../interfaces/Transcriber.interface'
+import { logger as baseLogger } from '../../logger'
+import { CaptionUtil } from '../../utils/CaptionUtil'
+import { ProcessUtil } from '../../utils/ProcessUtil'
+
+/**
+ * Base of backends that run an executable which writes captions next to the audio
+ */
+export abstract class ProcessTranscriber implements Transcriber {
+  protected logger: winston.Logger
+
+  constructor(protected readonly options: TranscriberOptions = {}) {
+    this.logger = baseLogger.child({ label: `[${this.constructor.name}]` })
+  }
+
+  protected abstract get defaultBinary(): string
+
+  protected abstract getArgs(inputFile: string, outputBase: string): string[]
+
+  public async transcribe(audioFile: string): Promise<Cue[]> {
+    const outputBase = path.join(path.dirname(audioFile), path.parse(audioFile).name)
+    const outputFiles = this.getOutputFiles(audioFile, outputBase)
+    // Remove outputs of previous runs, so they are not mistaken for this one
+    outputFiles.filter((v) => existsSync(v)).forEach((v) => unlinkSync(v))
+
+    const inputFile = await this.prepare(audioFile, outputBase)
+    try {
+      const binary = this.options.binary || this.defaultBinary
+      const args = [...this.getArgs(inputFile, outputBase), ...(this.options.args || [])]
+      this.logger.debug('transcribe', { binary, args })
+      await ProcessUtil.run(binary, args, { cwd: path.dirname(audioFile) })
+    } finally {
+      if (inputFile !== audioFile && existsSync(inputFile)) {
+        unlinkSync(inputFile)
+      }
+    }
+
+    const outputFile = outputFiles.find((v) => existsSync(v))
+    if (!outputFile) {
+      throw new Error(`Transcription output not found for ${audioFile}`)
+    }
+    return CaptionUtil.parseFile(outputFile)
+  }
+
+  /**
+   * Returns the file passed to the executable, temporary files are removed after transcription
+   */
+  // eslint-disable-next-line class-methods-use-this, @typescript-eslint/no-unused-vars
+  protected async prepare(audioFile: string, outputBase: string): Promise<string> {
+    return audioFile
+  }
+
+  /**
+   * Possible output files, by priority
+   */
+  // eslint-disable-next-line class-methods-use-this
+  protected getOutputFiles(audioFile: string, outputBase: string): string[] {
+    return [`${outputBase}.vtt`, `${audioFile}.vtt`, `${outputBase}.srt`, `${outputBase}.json`]
+  }
+}
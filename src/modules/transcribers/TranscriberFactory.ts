@@ -0,0 +1,21 @@
+import { Transcriber, TranscriberOptions } from '../../interfaces/Transcriber.interface'
+import { FasterWhisperTranscriber } from './FasterWhisperTranscriber'
+import { HttpTranscriber } from './HttpTranscriber'
+import { WhisperCppTranscriber } from './WhisperCppTranscriber'
+import { WhisperTranscriber } from './WhisperTranscriber'
+
+export class TranscriberFactory {
+  public static create(options: TranscriberOptions = {}): Transcriber {
+    switch (options.backend) {
+      case 'whisper.cpp':
+        return new WhisperCppTranscriber(options)
+      case 'faster-whisper':
+        return new FasterWhisperTranscriber(options)
+      case 'http':
+        return new HttpTranscriber(options)
+      case 'whisper':
+      default:
+        return new WhisperTranscriber(options)
+    }
+  }
+}
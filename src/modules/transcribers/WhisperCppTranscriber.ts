@@ -0,0 +1,52 @@
+import path from 'path'
+import { APP_TRANSCRIBE_MODEL } from '../../constants/app.constant'
+import { ProcessUtil } from '../../utils/ProcessUtil'
+import { ProcessTranscriber } from './ProcessTranscriber'
+
+/**
+ * @see https://github.com/ggerganov/whisper.cpp
+ */
+export class WhisperCppTranscriber extends ProcessTranscriber {
+  // eslint-disable-next-line class-methods-use-this
+  protected get defaultBinary() {
+    return 'whisper-cli'
+  }
+
+  /**
+   * Model can be a path to a ggml file or a model name (e.g. base.en).
+   * Resolved against the working directory, the executable runs in the audio directory
+   */
+  private get modelPath() {
+    const model = this.options.model || APP_TRANSCRIBE_MODEL
+    return /[/\\]|\.bin$/.test(model)
+      ? path.resolve(model)
+      : path.resolve('models', `ggml-${model}.bin`)
+  }
+
+  /**
+   * whisper.cpp only reads 16kHz wav
+   */
+  // eslint-disable-next-line class-methods-use-this
+  protected async prepare(audioFile: string, outputBase: string): Promise<string> {
+    const wavFile = `${outputBase}.16k.wav`
+    await ProcessUtil.run('ffmpeg', ['-y', '-i', audioFile, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavFile])
+    return wavFile
+  }
+
+  protected getArgs(inputFile: string, outputBase: string): string[] {
+    const { language, threads } = this.options
+    const args = [
+      '-m', this.modelPath,
+      '-f', inputFile,
+      '-ovtt',
+      '-of', outputBase,
+    ]
+    if (language) {
+      args.push('-l', language)
+    }
+    if (threads) {
+      args.push('-t', String(threads))
+    }
+    return args
+  }
+}
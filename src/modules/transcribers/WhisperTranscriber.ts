@@ -0,0 +1,30 @@
+import path from 'path'
+import { APP_TRANSCRIBE_MODEL } from '../../constants/app.constant'
+import { ProcessTranscriber } from './ProcessTranscriber'
+
+/**
+ * @see https://github.com/openai/whisper
+ */
+export class WhisperTranscriber extends ProcessTranscriber {
+  // eslint-disable-next-line class-methods-use-this
+  protected get defaultBinary() {
+    return 'whisper'
+  }
+
+  protected getArgs(inputFile: string, outputBase: string): string[] {
+    const { model, language, threads } = this.options
+    const args = [
+      inputFile,
+      '--model', model || APP_TRANSCRIBE_MODEL,
+      '--output_format', 'vtt',
+      '--output_dir', path.dirname(outputBase),
+    ]
+    if (language) {
+      args.push('--language', language)
+    }
+    if (threads) {
+      args.push('--threads', String(threads))
+    }
+    return args
+  }
+}
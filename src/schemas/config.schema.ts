@@ -0,0 +1,326 @@
+import { ObjectSchema, Schema } from '../interfaces/Schema.interface'
+import { TemplateUtil } from '../utils/TemplateUtil'
+
+const stringArraySchema: Schema = {
+  type: 'array',
+  items: { type: 'string' },
+}
+
+const templateSchema: Schema = {
+  type: 'string',
+  validate: (value: string) => {
+    const fields = TemplateUtil.getUnknownFields(value)
+    return fields.length ? `has unknown fields: ${fields.join(', ')}` : undefined
+  },
+}
+
+const userOptionsProperties: Record<string, Schema> = {
+  interval: {
+    type: 'number',
+    integer: true,
+    min: 1000,
+    description: 'User polling interval (ms)',
+  },
+  record: { type: 'boolean' },
+  transcribe: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      backend: { type: 'string', enum: ['whisper', 'whisper.cpp', 'faster-whisper', 'http'] },
+      binary: { type: 'string' },
+      model: { type: 'string' },
+      liveModel: { type: 'string' },
+      language: { type: 'string' },
+      threads: { type: 'number', integer: true, min: 1 },
+      args: stringArraySchema,
+      url: { type: 'string' },
+    },
+    validate: (value) => {
+      if (value.backend === 'http' && !value.url) {
+        return 'url is required for http backend'
+      }
+      return undefined
+    },
+  },
+  audio: {
+    type: 'object',
+    properties: {
+      profiles: stringArraySchema,
+      transcribe: { type: 'string' },
+      webhook: { type: 'string' },
+      coverArt: { type: 'string', enum: ['avatar', 'banner', 'none'] },
+      chapters: { type: 'boolean' },
+    },
+  },
+  postProcess: {
+    type: 'object',
+    properties: {
+      normalize: { type: 'boolean' },
+      loudness: { type: 'number', min: -70, max: -5 },
+      trimSilence: { type: 'boolean' },
+      maxSilence: { type: 'number', integer: true, min: 0 },
+      silenceThreshold: { type: 'number', min: -90, max: 0 },
+      keepOriginal: { type: 'boolean' },
+    },
+  },
+  clips: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      padding: { type: 'number', integer: true, min: 0 },
+      webhook: { type: 'boolean' },
+    },
+  },
+  guest: {
+    type: 'object',
+    properties: {
+      record: { type: 'boolean' },
+      webhook: { type: 'boolean' },
+      roles: {
+        type: 'array',
+        items: { type: 'string', enum: ['co-host', 'speaker', 'listener'] },
+      },
+    },
+  },
+  filenameTemplate: templateSchema,
+  directoryTemplate: templateSchema,
+  webhookIds: stringArraySchema,
+  dictionaries: stringArraySchema,
+  priority: { type: 'number', integer: true },
+}
+
+const keywordFuzzySchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    phonetic: {
+      type: 'union',
+      schemas: [
+        { type: 'boolean' },
+        { type: 'string', enum: ['metaphone', 'soundex'] },
+      ],
+    },
+    editDistance: { type: 'boolean' },
+    threshold: { type: 'number', min: 0, max: 1 },
+    phoneticThreshold: { type: 'number', min: 0, max: 1 },
+  },
+}
+
+export const keywordEntrySchema: ObjectSchema = {
+  type: 'object',
+  required: ['label'],
+  properties: {
+    label: { type: 'string' },
+    aliases: stringArraySchema,
+    regex: {
+      type: 'string',
+      validate: (value: string) => {
+        try {
+          // eslint-disable-next-line no-new
+          new RegExp(value)
+          return undefined
+        } catch (error) {
+          return `is not a valid regex: ${error.message}`
+        }
+      },
+    },
+    caseSensitive: { type: 'boolean' },
+    wholeWord: { type: 'boolean' },
+    fuzzy: keywordFuzzySchema,
+  },
+}
+
+export const keywordDictionaryFileSchema: Schema = {
+  type: 'array',
+  items: keywordEntrySchema,
+}
+
+const concurrencySchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    recordings: { type: 'number', integer: true, min: 1 },
+    postProcess: { type: 'number', integer: true, min: 1 },
+    webhooks: { type: 'number', integer: true, min: 1 },
+  },
+}
+
+const discordWebhookSchema: ObjectSchema = {
+  type: 'object',
+  required: ['urls'],
+  properties: {
+    id: { type: 'string' },
+    active: { type: 'boolean' },
+    urls: stringArraySchema,
+    usernames: stringArraySchema,
+    mentions: {
+      type: 'object',
+      properties: {
+        roleIds: stringArraySchema,
+        userIds: stringArraySchema,
+      },
+    },
+    startMessage: { type: 'string' },
+    endMessage: { type: 'string' },
+    scheduledMessage: { type: 'string' },
+    canceledMessage: { type: 'string' },
+  },
+}
+
+export const configSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    ...userOptionsProperties,
+    downloadDir: { type: 'string' },
+    participantFilter: { type: 'boolean' },
+    shutdownTimeout: { type: 'number', min: 0 },
+    concurrency: concurrencySchema,
+    users: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['username'],
+        properties: {
+          username: { type: 'string', pattern: /^\w{1,15}$/ },
+          category: { type: 'string' },
+          ...userOptionsProperties,
+        },
+      },
+    },
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          color: { type: 'string', pattern: /^#?[0-9a-f]{6}$/i },
+          concurrency: concurrencySchema,
+          ...userOptionsProperties,
+        },
+      },
+    },
+    keywordDictionaries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          file: { type: 'string' },
+          keywords: keywordDictionaryFileSchema,
+          fuzzy: keywordFuzzySchema,
+        },
+      },
+    },
+    alerts: {
+      type: 'object',
+      properties: {
+        active: { type: 'boolean' },
+        contextBefore: { type: 'number', integer: true, min: 0 },
+        contextAfter: { type: 'number', integer: true, min: 0 },
+        dedupeWindow: { type: 'number', min: 0 },
+        sinks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['type'],
+            properties: {
+              type: { type: 'string', enum: ['discord', 'http', 'file'] },
+              url: { type: 'string' },
+              file: { type: 'string' },
+              labels: stringArraySchema,
+            },
+            validate: (value) => {
+              if (value.type !== 'file' && !value.url) {
+                return `url is required for ${value.type} sink`
+              }
+              return undefined
+            },
+          },
+        },
+      },
+    },
+    transcriptionQueue: {
+      type: 'object',
+      properties: {
+        workers: { type: 'number', integer: true, min: 1 },
+        retries: { type: 'number', integer: true, min: 0 },
+        retryDelay: { type: 'number', min: 0 },
+      },
+    },
+    encodingProfiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'format'],
+        properties: {
+          name: { type: 'string', pattern: /^[\w-]+$/ },
+          format: { type: 'string', enum: ['ogg', 'opus', 'm4a', 'mp3', 'flac'] },
+          bitrate: { type: 'string', pattern: /^\d+k$/ },
+          args: stringArraySchema,
+        },
+      },
+    },
+    retention: {
+      type: 'object',
+      properties: {
+        active: { type: 'boolean' },
+        dryRun: { type: 'boolean' },
+        interval: { type: 'number', integer: true, min: 60000 },
+        maxAge: { type: 'number', min: 0 },
+        maxSize: { type: 'number', min: 0 },
+        keepPerUser: { type: 'number', integer: true, min: 1 },
+        dropIntermediatesAfter: { type: 'number', min: 0 },
+        compressAfter: { type: 'number', min: 0 },
+        compressBitrate: { type: 'string', pattern: /^\d+k$/ },
+      },
+    },
+    freeSpace: {
+      type: 'object',
+      properties: {
+        warn: { type: 'number', min: 0 },
+        refuse: { type: 'number', min: 0 },
+      },
+    },
+    storage: {
+      type: 'object',
+      properties: {
+        backend: { type: 'string', enum: ['local', 's3'] },
+        dir: { type: 'string' },
+        prefix: { type: 'string' },
+        publicUrl: { type: 'string' },
+        webhookLinks: { type: 'boolean' },
+        s3: {
+          type: 'object',
+          required: ['bucket'],
+          properties: {
+            endpoint: { type: 'string' },
+            region: { type: 'string' },
+            bucket: { type: 'string' },
+            accessKeyId: { type: 'string' },
+            secretAccessKey: { type: 'string' },
+            forcePathStyle: { type: 'boolean' },
+            partSize: { type: 'number', min: 5 },
+            presignExpiry: {
+              type: 'number', integer: true, min: 1, max: 604800,
+            },
+          },
+        },
+      },
+      validate: (value) => {
+        if (value.backend === 's3' && !value.s3) {
+          return 's3 is required for s3 backend'
+        }
+        return undefined
+      },
+    },
+    webhooks: {
+      type: 'object',
+      properties: {
+        discord: {
+          type: 'array',
+          items: discordWebhookSchema,
+        },
+      },
+    },
+  },
+}
@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs'
+import { Cue, parseSync, stringifySync } from 'subtitle'
+import { AudioSegment } from '../interfaces/Audio.interface'
+import { Keyword } from '../interfaces/Keyword.interface'
+import { CaptionPhrase } from '../interfaces/Twitter.interface'
+import { KeywordUtil } from './KeywordUtil'
+
+export class CaptionUtil {
+  /**
+   * Parses WebVTT, SRT or Whisper JSON (segments in seconds) into cues (ms)
+   */
+  public static parse(payload: string): Cue[] {
+    const trimmedPayload = payload.trim()
+    if (trimmedPayload.startsWith('{') || trimmedPayload.startsWith('[')) {
+      const data = JSON.parse(trimmedPayload)
+      const segments: any[] = Array.isArray(data) ? data : (data.segments || [])
+      return segments.map((v) => ({
+        start: Math.round(Number(v.start) * 1000),
+        end: Math.round(Number(v.end) * 1000),
+        text: String(v.text || '').trim(),
+      }))
+    }
+    return parseSync(payload)
+      .filter((node) => node.type === 'cue')
+      .map((node) => node.data as Cue)
+  }
+
+  public static parseFile(file: string): Cue[] {
+    return this.parse(readFileSync(file, 'utf-8'))
+  }
+
+  /**
+   * Cleans cue text & highlights keywords, offset (ms) is added to the cue start
+   */
+  public static toPhrase(cue: Cue, keywords: Keyword[], offset = 0): CaptionPhrase {
+    // remove non-text characters
+    let text = cue.text.replace(/[.,#!^;:{}=_`~()]/g, '')
+    const matches = KeywordUtil.findMatches(text, keywords)
+    if (matches.length) {
+      text = KeywordUtil.highlight(text, matches)
+    }
+    return new CaptionPhrase(cue.start + offset, text, matches)
+  }
+
+  /**
+   * Maps a time (ms) of post-processed audio back to the original audio, given segments removed from it
+   */
+  public static toOriginalTime(time: number, removedSegments: AudioSegment[] = []): number {
+    let originalTime = time
+    removedSegments
+      .slice()
+      .sort((a, b) => a.start - b.start)
+      .forEach((segment) => {
+        if (segment.start <= originalTime) {
+          originalTime += segment.end - segment.start
+        }
+      })
+    return originalTime
+  }
+
+  /**
+   * Maps a time (ms) of the original audio to post-processed audio, a time within a removed segment maps to its start
+   */
+  public static toProcessedTime(time: number, removedSegments: AudioSegment[] = []): number {
+    return removedSegments
+      .filter((segment) => segment.start < time)
+      .reduce((processedTime, segment) => processedTime - (Math.min(segment.end, time) - segment.start), time)
+  }
+
+  public static toVtt(cues: Cue[]): string {
+    return stringifySync(cues.map((data) => ({ type: 'cue', data })), { format: 'WebVTT' })
+  }
+}
@@ -0,0 +1,191 @@
+import yaml from 'js-yaml'
+import { SchemaPath } from '../interfaces/Schema.interface'
+import { SchemaUtil } from './SchemaUtil'
+
+interface JsonFrame {
+  path: SchemaPath
+  isArray: boolean
+  index: number
+  expectKey: boolean
+}
+
+interface YamlFrame {
+  col: number
+  path: SchemaPath
+  isItem: boolean
+}
+
+export class ConfigUtil {
+  public static isYamlPath(configPath: string): boolean {
+    return /\.ya?ml$/i.test(configPath)
+  }
+
+  /**
+   * Returns the paths that were added (+), removed (-) or changed (~) between two configs.
+   * Values are left out since they can be secrets (e.g. webhook urls)
+   */
+  public static diff(prev: any, next: any, path: SchemaPath = []): string[] {
+    if (JSON.stringify(prev) === JSON.stringify(next)) {
+      return []
+    }
+    const isObject = (v: any) => v && typeof v === 'object'
+    if (isObject(prev) && isObject(next) && Array.isArray(prev) === Array.isArray(next)) {
+      const keys = [...new Set([...Object.keys(prev), ...Object.keys(next)])]
+      return keys.flatMap((key) => this.diff(prev[key], next[key], [...path, Array.isArray(prev) ? Number(key) : key]))
+    }
+    const name = SchemaUtil.formatPath(path)
+    if (prev === undefined) {
+      return [`+ ${name}`]
+    }
+    if (next === undefined) {
+      return [`- ${name}`]
+    }
+    return [`~ ${name}`]
+  }
+
+  /**
+   * Returns the line of the closest node to the path, or undefined if it can not be located
+   */
+  public static getLine(payload: string, isYaml: boolean, path: SchemaPath): number {
+    const lines = isYaml
+      ? this.getYamlLines(payload)
+      : this.getJsonLines(payload)
+    for (let i = path.length; i > 0; i -= 1) {
+      const line = lines.get(SchemaUtil.formatPath(path.slice(0, i)))
+      if (line) {
+        return line
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Returns the line of a JSON.parse / yaml.load error
+   */
+  public static getParseErrorLine(payload: string, error: any): number {
+    if (error?.mark?.line !== undefined) {
+      return error.mark.line + 1
+    }
+    const line = /line (\d+)/.exec(error?.message)?.[1]
+    if (line) {
+      return Number(line)
+    }
+    const position = /position (\d+)/.exec(error?.message)?.[1]
+    if (position) {
+      return payload.substring(0, Number(position)).split('\n').length
+    }
+    if (!error?.mark) {
+      // Newer JSON.parse errors come without position, JSON is also YAML so let it locate the error
+      try {
+        yaml.load(payload)
+      } catch (yamlError) {
+        return this.getParseErrorLine(payload, yamlError)
+      }
+    }
+    return undefined
+  }
+
+  private static getJsonLines(payload: string): Map<string, number> {
+    const lines = new Map<string, number>()
+    const stack: JsonFrame[] = []
+    let line = 1
+
+    const markValue = () => {
+      const frame = stack[stack.length - 1]
+      if (frame?.isArray) {
+        lines.set(SchemaUtil.formatPath([...frame.path, frame.index]), line)
+      }
+    }
+
+    let lastKey: string
+    for (let i = 0; i < payload.length; i += 1) {
+      const c = payload[i]
+      if (c === '\n') {
+        line += 1
+      } else if (c === '{' || c === '[') {
+        markValue()
+        const frame = stack[stack.length - 1]
+        let path: SchemaPath = []
+        if (frame) {
+          path = [...frame.path, frame.isArray ? frame.index : lastKey]
+        }
+        stack.push({
+          path, isArray: c === '[', index: 0, expectKey: c === '{',
+        })
+      } else if (c === '}' || c === ']') {
+        stack.pop()
+      } else if (c === ',') {
+        const frame = stack[stack.length - 1]
+        if (frame?.isArray) {
+          frame.index += 1
+        } else if (frame) {
+          frame.expectKey = true
+        }
+      } else if (c === '"') {
+        let j = i + 1
+        while (j < payload.length && payload[j] !== '"') {
+          j += payload[j] === '\\' ? 2 : 1
+        }
+        const frame = stack[stack.length - 1]
+        if (frame && !frame.isArray && frame.expectKey) {
+          lastKey = JSON.parse(payload.substring(i, j + 1))
+          frame.expectKey = false
+          lines.set(SchemaUtil.formatPath([...frame.path, lastKey]), line)
+        } else {
+          markValue()
+        }
+        i = j
+      } else if (/[-\dtfn]/.test(c)) {
+        markValue()
+        while (i + 1 < payload.length && !/[,\]}\s]/.test(payload[i + 1])) {
+          i += 1
+        }
+      }
+    }
+    return lines
+  }
+
+  private static getYamlLines(payload: string): Map<string, number> {
+    const lines = new Map<string, number>()
+    const seqIndexes = new Map<string, number>()
+    const stack: YamlFrame[] = [{ col: -1, path: [], isItem: false }]
+    const keyPattern = /^(["']?)([^"'\s#:][^"'#:]*?)\1\s*:(\s|$)/
+
+    payload.split(/\r?\n/).forEach((rawLine, i) => {
+      const line = i + 1
+      let col = /^ */.exec(rawLine)[0].length
+      let text = rawLine.substring(col)
+      if (!text || text.startsWith('#') || text.startsWith('---')) {
+        return
+      }
+
+      while (text.startsWith('-') && /^-(\s|$)/.test(text)) {
+        while (stack.length > 1 && (stack[stack.length - 1].col > col || (stack[stack.length - 1].col === col && stack[stack.length - 1].isItem))) {
+          stack.pop()
+        }
+        const parentPath = stack[stack.length - 1].path
+        const parentKey = SchemaUtil.formatPath(parentPath)
+        const index = seqIndexes.get(parentKey) ?? 0
+        seqIndexes.set(parentKey, index + 1)
+        const path = [...parentPath, index]
+        lines.set(SchemaUtil.formatPath(path), line)
+        stack.push({ col, path, isItem: true })
+        const offset = /^-\s*/.exec(text)[0].length
+        col += offset
+        text = text.substring(offset)
+      }
+
+      const match = keyPattern.exec(text)
+      if (!match) {
+        return
+      }
+      while (stack.length > 1 && stack[stack.length - 1].col >= col) {
+        stack.pop()
+      }
+      const path = [...stack[stack.length - 1].path, match[2].trim()]
+      lines.set(SchemaUtil.formatPath(path), line)
+      stack.push({ col, path, isItem: false })
+    })
+    return lines
+  }
+}
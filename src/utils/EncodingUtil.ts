@@ -0,0 +1,57 @@
+import path from 'path'
+import { ENCODING_AAC_BITRATE, ENCODING_MP3_BITRATE, ENCODING_OPUS_BITRATE } from '../constants/encoding.constant'
+import { EncodingProfile } from '../interfaces/Encoding.interface'
+
+export class EncodingUtil {
+  public static getExtension(profile: EncodingProfile): string {
+    return `.${profile.format}`
+  }
+
+  /**
+   * Built-in profiles keep the plain name (`<name>.ogg`),
+   * other profiles add their name so outputs of the same format do not collide (`<name>.discord.mp3`)
+   */
+  public static getFileName(filename: string, profile: EncodingProfile): string {
+    const suffix = profile.name === profile.format ? '' : `.${profile.name}`
+    return filename + suffix + this.getExtension(profile)
+  }
+
+  /**
+   * ffmpeg muxer of an audio file, for files whose extension can not tell it
+   */
+  public static getMuxer(file: string): string {
+    const ext = path.extname(file).slice(1)
+    return ({ m4a: 'ipod', opus: 'ogg' } as Record<string, string>)[ext] || ext
+  }
+
+  /**
+   * `reencode` when audio is filtered, stream copy is not possible then
+   */
+  public static getOutputArgs(profile: EncodingProfile, reencode = false): string[] {
+    const args: string[] = []
+    switch (profile.format) {
+      case 'opus':
+        args.push('-c:a', 'libopus', '-b:a', profile.bitrate || ENCODING_OPUS_BITRATE)
+        break
+      case 'm4a':
+        if (reencode) {
+          args.push('-c:a', 'aac', '-b:a', profile.bitrate || ENCODING_AAC_BITRATE)
+          break
+        }
+        // Chunks are already AAC
+        args.push('-c:a', 'copy', '-bsf:a', 'aac_adtstoasc')
+        break
+      case 'mp3':
+        args.push('-c:a', 'libmp3lame', '-b:a', profile.bitrate || ENCODING_MP3_BITRATE)
+        break
+      case 'flac':
+        args.push('-c:a', 'flac')
+        break
+      default:
+        // ffmpeg defaults
+        break
+    }
+    args.push(...(profile.args || []))
+    return args
+  }
+}
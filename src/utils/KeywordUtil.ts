@@ -0,0 +1,161 @@
+import {
+  KEYWORD_FUZZY_MIN_LENGTH,
+  KEYWORD_FUZZY_THRESHOLD,
+  KEYWORD_PHONETIC_MIN_LENGTH,
+  KEYWORD_PHONETIC_THRESHOLD,
+} from '../constants/keyword.constant'
+import { KeywordEntry, KeywordFuzzyOptions } from '../interfaces/App.interface'
+import { Keyword, KeywordMatch, KeywordMatcher } from '../interfaces/Keyword.interface'
+import { PhoneticUtil } from './PhoneticUtil'
+
+const MATCHER_PRIORITIES: KeywordMatcher[] = ['alias', 'regex', 'fuzzy', 'phonetic']
+
+export class KeywordUtil {
+  public static escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+
+  /**
+   * Compiles a keyword entry, throws if its raw regex is invalid
+   */
+  public static compile(entry: KeywordEntry, defaultFuzzy?: KeywordFuzzyOptions): Keyword {
+    const aliases = entry.aliases?.length || entry.regex
+      ? (entry.aliases || []).filter((v) => v)
+      : [entry.label]
+    const flags = entry.caseSensitive ? 'g' : 'gi'
+    const wrap = (source: string) => (entry.wholeWord ? `\\b(?:${source})\\b` : source)
+    const keyword: Keyword = {
+      label: entry.label,
+      phrases: [...new Set([entry.label, ...aliases])],
+      fuzzy: entry.fuzzy || defaultFuzzy,
+    }
+    if (aliases.length) {
+      keyword.aliasRegexp = new RegExp(wrap(aliases.map((v) => this.escapeRegExp(v)).join('|')), flags)
+    }
+    if (entry.regex) {
+      keyword.rawRegexp = new RegExp(wrap(entry.regex), flags)
+    }
+    return keyword
+  }
+
+  /**
+   * Returns non overlapping matches of keywords in text, sorted by position.
+   * When matches overlap, the one with the highest confidence is kept
+   */
+  public static findMatches(text: string, keywords: Keyword[]): KeywordMatch[] {
+    const matches = keywords.flatMap((keyword) => [
+      ...this.findRegExpMatches(text, keyword.label, keyword.aliasRegexp, 'alias'),
+      ...this.findRegExpMatches(text, keyword.label, keyword.rawRegexp, 'regex'),
+      ...this.findFuzzyMatches(text, keyword),
+    ])
+    return matches
+      .sort((a, b) => b.confidence - a.confidence
+        || MATCHER_PRIORITIES.indexOf(a.matcher) - MATCHER_PRIORITIES.indexOf(b.matcher)
+        || b.text.length - a.text.length)
+      .reduce<KeywordMatch[]>((arr, match) => {
+        const end = match.index + match.text.length
+        const isOverlapped = arr.some((v) => match.index < v.index + v.text.length && v.index < end)
+        return isOverlapped ? arr : [...arr, match]
+      }, [])
+      .sort((a, b) => a.index - b.index)
+  }
+
+  /**
+   * Replaces matched text with the formatted keyword label
+   */
+  public static highlight(text: string, matches: KeywordMatch[], format = (match: KeywordMatch) => `__**${match.label}**__`): string {
+    return [...matches]
+      .sort((a, b) => b.index - a.index)
+      .reduce((s, match) => s.substring(0, match.index) + format(match) + s.substring(match.index + match.text.length), text)
+  }
+
+  private static findRegExpMatches(text: string, label: string, regexp: RegExp, matcher: KeywordMatcher): KeywordMatch[] {
+    if (!regexp) {
+      return []
+    }
+    return [...text.matchAll(regexp)]
+      .filter((v) => v[0])
+      .map((v) => ({
+        label, matcher, confidence: 1, text: v[0], index: v.index,
+      }))
+  }
+
+  private static normalize(s: string): string {
+    return s.toLowerCase().replace(/[^a-z0-9]/g, '')
+  }
+
+  /**
+   * Compares every window of words around the phrase word count with each keyword phrase
+   */
+  private static findFuzzyMatches(text: string, keyword: Keyword): KeywordMatch[] {
+    const options = keyword.fuzzy
+    if (!options || (!options.phonetic && !options.editDistance)) {
+      return []
+    }
+    const threshold = options.threshold ?? KEYWORD_FUZZY_THRESHOLD
+    const phoneticThreshold = options.phoneticThreshold ?? KEYWORD_PHONETIC_THRESHOLD
+    const words = [...text.matchAll(/[\w']+/g)].map((v) => ({ text: v[0], index: v.index }))
+    const matches: KeywordMatch[] = []
+
+    keyword.phrases.forEach((phrase) => {
+      const target = this.normalize(phrase)
+      if (target.length < KEYWORD_FUZZY_MIN_LENGTH) {
+        return
+      }
+      const encode = (v: string) => {
+        if (!options.phonetic) {
+          return ''
+        }
+        return options.phonetic === 'soundex'
+          ? PhoneticUtil.soundex(v)
+          : PhoneticUtil.metaphone(v)
+      }
+      const targetCode = encode(target)
+      const wordCount = phrase.split(/\s+/).filter((v) => v).length
+      const sizes = [wordCount - 1, wordCount, wordCount + 1].filter((v) => v >= 1)
+      sizes.forEach((size) => {
+        for (let i = 0; i + size <= words.length; i += 1) {
+          const window = words.slice(i, i + size)
+          const value = this.normalize(window.map((v) => v.text).join(''))
+          // Also compare singular form, plurals are common
+          const values = value.length > target.length && value.endsWith('s')
+            ? [value, value.slice(0, -1)]
+            : [value]
+          let confidence = 0
+          let matcher: KeywordMatcher
+          values.forEach((v) => {
+            if (options.editDistance) {
+              const similarity = PhoneticUtil.getSimilarity(v, target)
+              if (similarity >= threshold && similarity > confidence) {
+                confidence = similarity
+                matcher = 'fuzzy'
+              }
+            }
+            // Sound alike words can be spelled differently, only their codes are compared
+            if (targetCode && v.length >= KEYWORD_PHONETIC_MIN_LENGTH) {
+              const similarity = PhoneticUtil.getSimilarity(encode(v), targetCode)
+              if (similarity >= phoneticThreshold && similarity > confidence) {
+                confidence = similarity
+                matcher = 'phonetic'
+              }
+            }
+          })
+          if (!matcher) {
+            // eslint-disable-next-line no-continue
+            continue
+          }
+          const start = window[0].index
+          const last = window[window.length - 1]
+          matches.push({
+            label: keyword.label,
+            matcher,
+            confidence: Math.round(confidence * 100) / 100,
+            text: text.substring(start, last.index + last.text.length),
+            index: start,
+          })
+        }
+      })
+    })
+    return matches
+  }
+}
@@ -1,3 +1,5 @@
+import { PlaylistChunk } from '../interfaces/Periscope.interface'
+
 export class PeriscopeUtil {
   public static isFinalPlaylistUrl(url: string) {
     return /playlist_\d+\.m3u8/g.test(url)
@@ -22,6 +24,47 @@ export class PeriscopeUtil {
     return data.match(chunkIndexPattern)?.map((v) => Number(v)) || []
   }
 
+  /**
+   * Url of another chunk of the same stream, chunk urls only differ by index
+   */
+  public static getChunkUrl(chunkUrl: string, index: number): string {
+    return chunkUrl.replace(/(chunk_\d+_)\d+(?=_a\.)/, `$1${index}`)
+  }
+
+  /**
+   * Parses chunks of a media playlist, chunk urls are resolved against the playlist url
+   */
+  public static getPlaylistChunks(playlistUrl: string, data: string): PlaylistChunk[] {
+    const chunks: PlaylistChunk[] = []
+    let duration = 0
+    let programDateTime: number
+    data.split(/\r?\n/).map((v) => v.trim()).filter((v) => v).forEach((line) => {
+      if (line.startsWith('#EXTINF:')) {
+        duration = Math.round(parseFloat(line.substring('#EXTINF:'.length)) * 1000) || 0
+        return
+      }
+      if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) {
+        programDateTime = Date.parse(line.substring('#EXT-X-PROGRAM-DATE-TIME:'.length)) || undefined
+        return
+      }
+      if (line.startsWith('#')) {
+        return
+      }
+      const index = this.getChunks(line)[0]
+      if (index !== undefined) {
+        chunks.push({
+          index,
+          url: new URL(line, playlistUrl).href,
+          duration,
+          programDateTime,
+        })
+      }
+      duration = 0
+      programDateTime = undefined
+    })
+    return chunks
+  }
+
   public static getChunkPrefix(playlistUrl: string) {
     const url = new URL(playlistUrl)
     const chunks = url.pathname.split('/')
@@ -0,0 +1,182 @@
+const VOWELS = 'AEIOU'
+
+export class PhoneticUtil {
+  /**
+   * Returns the Levenshtein distance between two strings
+   */
+  public static getEditDistance(a: string, b: string): number {
+    if (a === b) {
+      return 0
+    }
+    let prevRow = Array.from({ length: b.length + 1 }, (v, i) => i)
+    for (let i = 1; i <= a.length; i += 1) {
+      const row = [i]
+      for (let j = 1; j <= b.length; j += 1) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1
+        row.push(Math.min(row[j - 1] + 1, prevRow[j] + 1, prevRow[j - 1] + cost))
+      }
+      prevRow = row
+    }
+    return prevRow[b.length]
+  }
+
+  /**
+   * Returns the similarity (0-1) between two strings, based on their edit distance
+   */
+  public static getSimilarity(a: string, b: string): number {
+    const length = Math.max(a.length, b.length)
+    if (!length) {
+      return 1
+    }
+    return 1 - this.getEditDistance(a, b) / length
+  }
+
+  /**
+   * @see https://en.wikipedia.org/wiki/Soundex
+   */
+  public static soundex(s: string): string {
+    const groups = ['BFPV', 'CGJKQSXZ', 'DT', 'L', 'MN', 'R']
+    const getCode = (c: string) => {
+      const index = groups.findIndex((v) => v.includes(c))
+      return index === -1 ? '' : String(index + 1)
+    }
+    const letters = s.toUpperCase().replace(/[^A-Z]/g, '')
+    if (!letters) {
+      return ''
+    }
+    let code = letters[0]
+    let prevCode = getCode(letters[0])
+    for (let i = 1; i < letters.length && code.length < 4; i += 1) {
+      const c = letters[i]
+      const curCode = getCode(c)
+      if (curCode && curCode !== prevCode) {
+        code += curCode
+      }
+      // H & W do not separate letters with the same code
+      if (c !== 'H' && c !== 'W') {
+        prevCode = curCode
+      }
+    }
+    return code.padEnd(4, '0')
+  }
+
+  /**
+   * Simplified version of the original Metaphone algorithm
+   * @see https://en.wikipedia.org/wiki/Metaphone
+   */
+  public static metaphone(s: string): string {
+    let word = s.toUpperCase().replace(/[^A-Z]/g, '')
+    if (!word) {
+      return ''
+    }
+    word = word.replace(/^(KN|GN|PN|AE|WR)/, (v) => v[1])
+      .replace(/^X/, 'S')
+      .replace(/^WH/, 'W')
+      .replace(/([^C])\1+/g, '$1')
+
+    const at = (i: number) => word[i] || ''
+    const isVowel = (c: string) => !!c && VOWELS.includes(c)
+    let code = ''
+    for (let i = 0; i < word.length; i += 1) {
+      const c = word[i]
+      const prev = at(i - 1)
+      const next = at(i + 1)
+      switch (c) {
+        case 'A': case 'E': case 'I': case 'O': case 'U':
+          if (i === 0) {
+            code += c
+          }
+          break
+        case 'B':
+          if (!(prev === 'M' && i === word.length - 1)) {
+            code += 'B'
+          }
+          break
+        case 'C':
+          if (next === 'I' && at(i + 2) === 'A') {
+            code += 'X'
+          } else if (next === 'H') {
+            code += prev === 'S' ? 'K' : 'X'
+            i += 1
+          } else if ('IEY'.includes(next) && next) {
+            if (prev !== 'S') {
+              code += 'S'
+            }
+          } else {
+            code += 'K'
+          }
+          break
+        case 'D':
+          if (next === 'G' && 'EIY'.includes(at(i + 2)) && at(i + 2)) {
+            code += 'J'
+            i += 1
+          } else {
+            code += 'T'
+          }
+          break
+        case 'G':
+          if (next === 'H' && !isVowel(at(i + 2))) {
+            break
+          }
+          if (next === 'N' && (i + 2 === word.length || word.substring(i + 1) === 'NED')) {
+            break
+          }
+          code += 'IEY'.includes(next) && next ? 'J' : 'K'
+          break
+        case 'H':
+          if (isVowel(next) && !'CSPTG'.includes(prev)) {
+            code += 'H'
+          }
+          break
+        case 'K':
+          if (prev !== 'C') {
+            code += 'K'
+          }
+          break
+        case 'P':
+          code += next === 'H' ? 'F' : 'P'
+          break
+        case 'Q':
+          code += 'K'
+          break
+        case 'S':
+          if (next === 'H') {
+            code += 'X'
+            i += 1
+          } else if (next === 'I' && 'OA'.includes(at(i + 2)) && at(i + 2)) {
+            code += 'X'
+          } else {
+            code += 'S'
+          }
+          break
+        case 'T':
+          if (next === 'I' && 'OA'.includes(at(i + 2)) && at(i + 2)) {
+            code += 'X'
+          } else if (next === 'H') {
+            code += '0'
+            i += 1
+          } else if (!(next === 'C' && at(i + 2) === 'H')) {
+            code += 'T'
+          }
+          break
+        case 'V':
+          code += 'F'
+          break
+        case 'W': case 'Y':
+          if (isVowel(next)) {
+            code += c
+          }
+          break
+        case 'X':
+          code += 'KS'
+          break
+        case 'Z':
+          code += 'S'
+          break
+        default:
+          code += c
+      }
+    }
+    return code
+  }
+}
@@ -0,0 +1,107 @@
+import { readFileSync, renameSync, writeFileSync } from 'fs'
+import path from 'path'
+import { PIPELINE_STAGES } from '../constants/pipeline.constant'
+import { PipelineStage, PipelineStageName, PipelineState } from '../interfaces/Pipeline.interface'
+import { SpaceDownloaderOptions } from '../interfaces/SpaceDownloaderOptions.interface'
+import { AudioPostProcessor } from '../modules/AudioPostProcessor'
+import { configManager } from '../modules/ConfigManager'
+import { EncodingUtil } from './EncodingUtil'
+
+export class PipelineUtil {
+  /**
+   * Options completed from the user options.
+   * They are saved in the state file, so a resumed pipeline keeps its outputs
+   */
+  public static getOptions(options: SpaceDownloaderOptions = {}): SpaceDownloaderOptions {
+    if (options.outputs?.length) {
+      return options
+    }
+    const { audio, postProcess, clips } = configManager.getUserOptions(options.username)
+    return {
+      ...options,
+      outputs: configManager.getEncodingProfiles(audio.profiles),
+      transcribeOutput: options.transcribeOutput ?? audio.transcribe,
+      postProcess: options.postProcess ?? postProcess,
+      chapters: options.chapters ?? audio.chapters,
+      clips: options.clips ?? clips,
+    }
+  }
+
+  /**
+   * Pending stages with the file each one works on
+   */
+  public static getStages(directory: string, filename: string, options: SpaceDownloaderOptions): Record<PipelineStageName, PipelineStage> {
+    const { outputs } = options
+    const transcribeProfile = outputs.find((profile) => profile.name === options.transcribeOutput) || outputs[0]
+    const mainFile = path.join(directory, EncodingUtil.getFileName(filename, outputs[0]))
+    const files: Record<PipelineStageName, string> = {
+      ffmpeg: mainFile,
+      // joined chunks, source of post-processing, kept if configured
+      process: path.join(directory, `${filename}.original.aac`),
+      whisper: path.join(directory, EncodingUtil.getFileName(filename, transcribeProfile)),
+      captions: path.join(directory, `${filename}.vtt`),
+      tags: mainFile,
+      clips: mainFile,
+    }
+    return PIPELINE_STAGES.reduce((stages, name) => ({
+      ...stages,
+      [name]: { status: 'pending', file: files[name], retries: 0 },
+    }), {} as Record<PipelineStageName, PipelineStage>)
+  }
+
+  /**
+   * Chapters need captions, cover art does not
+   */
+  public static isTagged(options: SpaceDownloaderOptions = {}): boolean {
+    return !!options.coverUrl || (!!options.chapters && options.transcribe !== false)
+  }
+
+  public static isStateComplete(state: Pick<PipelineState, 'options' | 'stages'>): boolean {
+    const stages = PIPELINE_STAGES.filter((name) => {
+      switch (name) {
+        case 'process':
+          return AudioPostProcessor.isEnabled(state.options?.postProcess)
+        case 'tags':
+          // stage added later, older recordings are complete without it
+          return !!state.stages?.tags && this.isTagged(state.options)
+        case 'clips':
+          return !!state.stages?.clips && !!state.options?.clips?.enabled && state.options?.transcribe !== false
+        case 'whisper':
+        case 'captions':
+          return state.options?.transcribe !== false
+        default:
+          return true
+      }
+    })
+    return stages.every((name) => state.stages?.[name]?.status === 'complete')
+  }
+
+  public static readState(file: string): PipelineState {
+    return JSON.parse(readFileSync(file, 'utf-8'))
+  }
+
+  public static writeState(file: string, state: PipelineState) {
+    writeFileSync(`${file}.tmp`, JSON.stringify(state, null, 2))
+    renameSync(`${file}.tmp`, file)
+  }
+
+  /**
+   * Copies statuses of saved stages, a stage interrupted while running is run again
+   */
+  public static restoreStages(stages: Record<PipelineStageName, PipelineStage>, saved: Partial<Record<PipelineStageName, PipelineStage>> = {}) {
+    PIPELINE_STAGES.forEach((name) => {
+      const stage = saved[name]
+      if (!stage) {
+        return
+      }
+      Object.assign(stages[name], {
+        status: (stage.status === 'in-progress' || stage.status === 'waiting') ? 'pending' : stage.status,
+        error: stage.error,
+        stderr: stage.stderr,
+        retries: stage.retries || 0,
+        uploaded: stage.uploaded,
+        updatedAt: stage.updatedAt,
+      })
+    })
+  }
+}
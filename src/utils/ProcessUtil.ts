@@ -0,0 +1,111 @@
+import { ChildProcess, spawn, SpawnOptions } from 'child_process'
+
+export interface ProcessResult {
+  code: number
+  /**
+   * Last lines of stdout
+   */
+  stdout: string
+  /**
+   * Last lines of stderr
+   */
+  stderr: string
+}
+
+const STDOUT_TAIL_SIZE = 65536
+const STDERR_TAIL_SIZE = 4096
+
+export class ProcessUtil {
+  /**
+   * Running children & their command
+   */
+  private static children = new Map<ChildProcess, string>()
+  private static isExitHandled = false
+
+  /**
+   * Spawns a command, through the shell on Windows.
+   * Elsewhere the child leads its own process group, so it can be killed with its own children
+   * & it does not receive signals of the terminal.
+   * Groups still running when the process exits, e.g. on a crash, are killed
+   * @see https://github.com/nodejs/node/issues/21825
+   */
+  public static spawn(cmd: string, args: string[], options: SpawnOptions = {}): ChildProcess {
+    const isWindows = process.platform === 'win32'
+    const spawnOptions: SpawnOptions = {
+      cwd: process.cwd(),
+      stdio: 'ignore',
+      detached: !isWindows,
+      windowsHide: true,
+      ...options,
+    }
+    const cp = isWindows
+      ? spawn(process.env.comspec, ['/c', cmd, ...args], spawnOptions)
+      : spawn(cmd, args, spawnOptions)
+    this.children.set(cp, cmd)
+    if (!this.isExitHandled) {
+      this.isExitHandled = true
+      process.once('exit', () => this.kill('SIGKILL'))
+    }
+    cp.once('exit', () => this.children.delete(cp))
+    cp.once('error', () => this.children.delete(cp))
+    return cp
+  }
+
+  public static getChildren(): { pid: number, cmd: string }[] {
+    return [...this.children.entries()].map(([cp, cmd]) => ({ pid: cp.pid, cmd }))
+  }
+
+  /**
+   * Sends a signal to the process group of running children, filtered by command.
+   * Returns the number of children signaled
+   */
+  public static kill(signal: Parameters<ChildProcess['kill']>[0], filter: (cmd: string) => boolean = () => true): number {
+    let count = 0
+    this.children.forEach((cmd, cp) => {
+      if (!filter(cmd) || !cp.pid) {
+        return
+      }
+      try {
+        if (process.platform === 'win32') {
+          cp.kill(signal)
+        } else {
+          process.kill(-cp.pid, signal)
+        }
+        count += 1
+      } catch (error) {
+        // exited already
+      }
+    })
+    return count
+  }
+
+  /**
+   * Runs a command until it exits, rejects if it can not be spawned or exits with a non-zero code.
+   * `onStderr` receives the whole stderr, chunk by chunk
+   */
+  public static run(cmd: string, args: string[], options?: SpawnOptions, onStderr?: (data: string) => void): Promise<ProcessResult> {
+    return new Promise((resolve, reject) => {
+      const cp = this.spawn(cmd, args, { ...options, stdio: ['ignore', 'pipe', 'pipe'] })
+      let stdout = ''
+      let stderr = ''
+      cp.stdout.on('data', (chunk) => {
+        stdout = (stdout + chunk.toString()).slice(-STDOUT_TAIL_SIZE)
+      })
+      cp.stderr.on('data', (chunk) => {
+        onStderr?.(chunk.toString())
+        stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_SIZE)
+      })
+      cp.once('error', (error) => reject(error))
+      cp.once('close', (code) => {
+        const result = { code, stdout, stderr }
+        if (code !== 0) {
+          const lastLine = stderr.trim().split('\n').pop() || ''
+          const error = Object.assign(new Error(`${cmd} exited with code ${code}: ${lastLine}`), result)
+          reject(error)
+          return
+        }
+        resolve(result)
+      })
+    })
+  }
+}
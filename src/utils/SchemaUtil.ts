@@ -0,0 +1,117 @@
+import {
+  Schema, SchemaError, SchemaPath,
+} from '../interfaces/Schema.interface'
+
+export class SchemaUtil {
+  /**
+   * Returns every error found in the value, an empty array means the value is valid
+   */
+  public static validate(schema: Schema, value: any, path: SchemaPath = []): SchemaError[] {
+    const errors = this.validateType(schema, value, path)
+    if (!errors.length && schema.validate) {
+      const message = schema.validate(value)
+      if (message) {
+        errors.push({ path, message })
+      }
+    }
+    return errors
+  }
+
+  public static formatPath(path: SchemaPath): string {
+    return path.reduce<string>((s, v) => (typeof v === 'number' ? `${s}[${v}]` : [s, v].filter((x) => x).join('.')), '') || '<root>'
+  }
+
+  public static formatError(error: SchemaError): string {
+    const line = error.line ? ` (line ${error.line})` : ''
+    return `${this.formatPath(error.path)}${line}: ${error.message}`
+  }
+
+  private static getTypeName(value: any): string {
+    if (value === null) {
+      return 'null'
+    }
+    if (Array.isArray(value)) {
+      return 'array'
+    }
+    return typeof value
+  }
+
+  private static validateType(schema: Schema, value: any, path: SchemaPath): SchemaError[] {
+    const typeName = this.getTypeName(value)
+    const typeError = (expected: string) => [{ path, message: `must be ${expected}, got ${typeName}` }]
+
+    switch (schema.type) {
+      case 'string': {
+        if (typeName !== 'string') {
+          return typeError('a string')
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+          return [{ path, message: `must be one of ${schema.enum.map((v) => `"${v}"`).join(', ')}` }]
+        }
+        if (schema.pattern && !schema.pattern.test(value)) {
+          return [{ path, message: `must match ${schema.pattern}` }]
+        }
+        return []
+      }
+      case 'number': {
+        if (typeName !== 'number' || Number.isNaN(value)) {
+          return typeError('a number')
+        }
+        if (schema.integer && !Number.isInteger(value)) {
+          return [{ path, message: 'must be an integer' }]
+        }
+        if (schema.min !== undefined && value < schema.min) {
+          return [{ path, message: `must be >= ${schema.min}` }]
+        }
+        if (schema.max !== undefined && value > schema.max) {
+          return [{ path, message: `must be <= ${schema.max}` }]
+        }
+        return []
+      }
+      case 'boolean': {
+        return typeName === 'boolean' ? [] : typeError('a boolean')
+      }
+      case 'array': {
+        if (typeName !== 'array') {
+          return typeError('an array')
+        }
+        return (value as any[]).flatMap((item, i) => this.validate(schema.items, item, [...path, i]))
+      }
+      case 'object': {
+        if (typeName !== 'object') {
+          return typeError('an object')
+        }
+        const errors: SchemaError[] = []
+        const properties = schema.properties || {}
+        const required = schema.required || []
+        required.forEach((key) => {
+          if (value[key] === undefined || value[key] === null) {
+            errors.push({ path: [...path, key], message: 'is required' })
+          }
+        })
+        Object.keys(value).forEach((key) => {
+          if (value[key] === undefined) {
+            return
+          }
+          const propertySchema = properties[key] || schema.values
+          if (!propertySchema) {
+            errors.push({ path: [...path, key], message: 'is not a known property' })
+            return
+          }
+          errors.push(...this.validate(propertySchema, value[key], [...path, key]))
+        })
+        return errors
+      }
+      case 'union': {
+        const results = schema.schemas.map((v) => this.validate(v, value, path))
+        if (results.some((v) => !v.length)) {
+          return []
+        }
+        // Report the candidate that went the deepest, it is most likely the intended one
+        return results.sort((a, b) => Math.max(...b.map((v) => v.path.length)) - Math.max(...a.map((v) => v.path.length)))[0]
+      }
+      default:
+        return []
+    }
+  }
+}
@@ -1,5 +1,8 @@
 /* eslint-disable max-len */
-import { AudioSpace, AudioSpaceParticipant } from '../interfaces/Twitter.interface'
+import { TWITTER_PARTICIPANT_ROLES } from '../constants/twitter.constant'
+import {
+  AudioSpace, AudioSpaceParticipant, SpaceParticipantRole, SpaceTrackedParticipant,
+} from '../interfaces/Twitter.interface'
 
 export class SpaceUtil {
   public static getId(audioSpace: AudioSpace): string {
@@ -62,6 +65,56 @@ export class SpaceUtil {
     return SpaceUtil.isUserInParticipants(audioSpace?.participants?.listeners, username)
   }
 
+  /**
+   * Highest role of the user in the Space
+   */
+  public static getRole(audioSpace: AudioSpace, username: string): SpaceParticipantRole {
+    if (username && SpaceUtil.getHostUsername(audioSpace)?.toLowerCase() === username.toLowerCase()) {
+      return 'host'
+    }
+    if (SpaceUtil.isAdmin(audioSpace, username)) {
+      return 'co-host'
+    }
+    if (SpaceUtil.isSpeaker(audioSpace, username)) {
+      return 'speaker'
+    }
+    if (SpaceUtil.isListener(audioSpace, username)) {
+      return 'listener'
+    }
+    return undefined
+  }
+
+  /**
+   * User whose options apply to the Space: the host, else the tracked user with the highest role
+   */
+  public static getTrackedUsername(audioSpace: AudioSpace): string {
+    return audioSpace?.tracked_participants?.[0]?.username || SpaceUtil.getHostUsername(audioSpace)
+  }
+
+  /**
+   * Tracked users seen in the Space with their highest role, highest first.
+   * Previous participants are kept, participants are not listed anymore once the Space ended
+   */
+  public static getTrackedParticipants(audioSpace: AudioSpace, usernames: string[], previous: SpaceTrackedParticipant[] = []): SpaceTrackedParticipant[] {
+    const rank = (role: SpaceParticipantRole) => TWITTER_PARTICIPANT_ROLES.indexOf(role)
+    const participants = previous.map((v) => ({ ...v }))
+    usernames.forEach((username) => {
+      const role = SpaceUtil.getRole(audioSpace, username)
+      if (!role) {
+        return
+      }
+      const participant = participants.find((v) => v.username.toLowerCase() === username.toLowerCase())
+      if (!participant) {
+        participants.push({ username, role })
+        return
+      }
+      if (rank(role) < rank(participant.role)) {
+        participant.role = role
+      }
+    })
+    return participants.sort((a, b) => rank(a.role) - rank(b.role))
+  }
+
   public static isParticipant(audioSpace: AudioSpace, username: string): boolean {
     return this.isAdmin(audioSpace, username) || this.isSpeaker(audioSpace, username) || this.isListener(audioSpace, username)
   }
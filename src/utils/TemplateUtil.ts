@@ -0,0 +1,70 @@
+import { DateTime } from 'luxon'
+import { APP_FILENAME_MAX_BYTES, APP_TEMPLATE_DATE_FORMAT } from '../constants/app.constant'
+import { TemplateFields } from '../interfaces/Template.interface'
+import { Util } from './Util'
+
+const FIELD_PATTERN = /\{(\w+)(?::([^}]+))?\}/g
+
+const DATE_FIELDS: (keyof TemplateFields)[] = ['startedAt']
+
+export class TemplateUtil {
+  public static readonly FIELDS: (keyof TemplateFields)[] = ['username', 'displayName', 'title', 'id', 'startedAt', 'category']
+
+  /**
+   * Returns fields used in a template that are not known
+   */
+  public static getUnknownFields(template: string): string[] {
+    return Array.from(template.matchAll(FIELD_PATTERN))
+      .map((match) => match[1])
+      .filter((name) => !this.FIELDS.includes(name as keyof TemplateFields))
+  }
+
+  /**
+   * Replaces `{field}` & `{field:format}` (Luxon format of date fields), values are cleaned for the filesystem
+   */
+  public static render(template: string, fields: TemplateFields): string {
+    return template.replace(FIELD_PATTERN, (match, name: keyof TemplateFields, format: string) => {
+      const value = fields[name]
+      if (value === undefined || value === null || value === '') {
+        return ''
+      }
+      if (DATE_FIELDS.includes(name)) {
+        return DateTime.fromMillis(Number(value)).toFormat(format || APP_TEMPLATE_DATE_FORMAT)
+      }
+      return Util.getCleanFileName(String(value))
+    })
+  }
+
+  public static getFileName(template: string, fields: TemplateFields): string {
+    return this.truncate(Util.getCleanFileName(this.render(template, fields)))
+  }
+
+  /**
+   * Renders a directory relative to the download root, `/` separates sub directories
+   */
+  public static getDirectory(template: string, fields: TemplateFields): string {
+    return this.render(template, fields)
+      .split('/')
+      .map((segment) => this.truncate(Util.getCleanFileName(segment)))
+      .filter((segment) => segment && !/^\.+$/.test(segment))
+      .join('/')
+  }
+
+  /**
+   * Caps the UTF-8 length without splitting characters
+   */
+  private static truncate(name: string, maxBytes = APP_FILENAME_MAX_BYTES): string {
+    if (Buffer.byteLength(name) <= maxBytes) {
+      return name
+    }
+    let result = ''
+    // eslint-disable-next-line no-restricted-syntax
+    for (const char of name) {
+      if (Buffer.byteLength(result + char) > maxBytes) {
+        break
+      }
+      result += char
+    }
+    return result
+  }
+}
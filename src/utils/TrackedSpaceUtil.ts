@@ -0,0 +1,126 @@
+import { DateTime } from 'luxon'
+import { SpaceDownloaderOptions } from '../interfaces/SpaceDownloaderOptions.interface'
+import { TemplateFields } from '../interfaces/Template.interface'
+import { AudioSpace, AudioSpaceParticipant } from '../interfaces/Twitter.interface'
+import { configManager } from '../modules/ConfigManager'
+import { SpaceUtil } from './SpaceUtil'
+import { TemplateUtil } from './TemplateUtil'
+import { TwitterUtil } from './TwitterUtil'
+
+/**
+ * Options of a Space, resolved from its tracked user
+ */
+export class TrackedSpaceUtil {
+  /**
+   * Spaces of tracked hosts are always processed,
+   * guest appearances follow the guest options of the user
+   */
+  public static isAllowed(audioSpace: AudioSpace, action: 'record' | 'webhook'): boolean {
+    const participants = audioSpace?.tracked_participants || []
+    if (participants.some((v) => v.role === 'host')) {
+      return true
+    }
+    if (participants.some((v) => {
+      const { guest } = configManager.getUserOptions(v.username)
+      return guest[action] && guest.roles.some((role) => role === v.role)
+    })) {
+      return true
+    }
+    // found through a tracked user, without any tracked participant
+    return !participants.length && !configManager.config?.participantFilter
+  }
+
+  public static getStartedAt(audioSpace: AudioSpace): number {
+    return SpaceUtil.getStartedAt(audioSpace) || SpaceUtil.getCreatedAt(audioSpace)
+  }
+
+  /**
+   * Recording name, from the filename template of the user
+   */
+  public static getFileName(audioSpace: AudioSpace): string {
+    const { filenameTemplate } = configManager.getUserOptions(SpaceUtil.getTrackedUsername(audioSpace))
+    return TemplateUtil.getFileName(filenameTemplate, this.getTemplateFields(audioSpace)) || SpaceUtil.getId(audioSpace)
+  }
+
+  /**
+   * Directory relative to the download root, from the directory template of the user
+   */
+  public static getDirectory(audioSpace: AudioSpace): string {
+    const { directoryTemplate } = configManager.getUserOptions(SpaceUtil.getTrackedUsername(audioSpace))
+    return TemplateUtil.getDirectory(directoryTemplate, this.getTemplateFields(audioSpace))
+  }
+
+  private static getTemplateFields(audioSpace: AudioSpace): TemplateFields {
+    return {
+      username: SpaceUtil.getHostUsername(audioSpace),
+      displayName: SpaceUtil.getHostName(audioSpace),
+      title: SpaceUtil.getTitle(audioSpace),
+      id: SpaceUtil.getId(audioSpace),
+      startedAt: this.getStartedAt(audioSpace),
+      category: configManager.getUserConfig(SpaceUtil.getTrackedUsername(audioSpace))?.category,
+    }
+  }
+
+  /**
+   * Tags of the recording
+   */
+  public static getMetadata(audioSpace: AudioSpace): Record<string, any> {
+    const hostUsername = SpaceUtil.getHostUsername(audioSpace)?.toLowerCase()
+    const getNames = (participants: AudioSpaceParticipant[]) => participants
+      .filter((v) => v.twitter_screen_name?.toLowerCase() !== hostUsername)
+      .map((v) => `${v.display_name} (@${v.twitter_screen_name})`)
+      .join(', ')
+    const startedAt = this.getStartedAt(audioSpace)
+    const spaceUrl = TwitterUtil.getSpaceUrl(SpaceUtil.getId(audioSpace))
+    return {
+      title: SpaceUtil.getTitle(audioSpace),
+      author: SpaceUtil.getHostName(audioSpace),
+      artist: SpaceUtil.getHostName(audioSpace),
+      episode_id: SpaceUtil.getId(audioSpace),
+      date: startedAt ? DateTime.fromMillis(Number(startedAt)).toISODate() : undefined,
+      comment: spaceUrl,
+      url: spaceUrl,
+      genre: configManager.getUserConfig(SpaceUtil.getTrackedUsername(audioSpace))?.category,
+      co_hosts: getNames(SpaceUtil.getAdmins(audioSpace)),
+      speakers: getNames(SpaceUtil.getSpeakers(audioSpace)),
+    }
+  }
+
+  /**
+   * Options of the recording pipeline, from the user options
+   */
+  public static getDownloaderOptions(audioSpace: AudioSpace, lastChunkIndex?: number): SpaceDownloaderOptions {
+    const username = SpaceUtil.getTrackedUsername(audioSpace)
+    const userOptions = configManager.getUserOptions(username)
+    const { started_at: startedAt, ended_at: endedAt } = audioSpace.metadata
+    return {
+      username,
+      transcribe: userOptions.transcribe.enabled,
+      transcriber: userOptions.transcribe,
+      priority: userOptions.priority,
+      expectedDuration: endedAt && startedAt ? Number(endedAt) - startedAt : undefined,
+      lastChunkIndex,
+      coverUrl: {
+        avatar: SpaceUtil.getHostProfileImgUrl(audioSpace),
+        banner: SpaceUtil.getHostProfileBannerUrl(audioSpace),
+        none: undefined,
+      }[userOptions.audio.coverArt],
+    }
+  }
+
+  /**
+   * Options of live transcription, with the live model
+   */
+  public static getLiveTranscriberOptions(audioSpace: AudioSpace): SpaceDownloaderOptions {
+    const username = SpaceUtil.getTrackedUsername(audioSpace)
+    const userOptions = configManager.getUserOptions(username)
+    return {
+      username,
+      priority: userOptions.priority,
+      transcriber: {
+        ...userOptions.transcribe,
+        model: userOptions.transcribe.liveModel,
+      },
+    }
+  }
+}
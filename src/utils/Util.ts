@@ -1,6 +1,7 @@
+import { execFileSync } from 'child_process'
 import fs from 'fs'
 import path from 'path'
-import { APP_CACHE_DIR, APP_DOWNLOAD_DIR, APP_USER_REFRESH_INTERVAL } from '../constants/app.constant'
+import { APP_CACHE_DIR, APP_DOWNLOAD_DIR } from '../constants/app.constant'
 import { configManager } from '../modules/ConfigManager'
 
 export class Util {
@@ -20,6 +21,28 @@ export class Util {
     return s
   }
 
+  /**
+   * Parses `hh:mm:ss`, `mm:ss` or seconds (decimals allowed) into ms
+   */
+  public static parseDisplayTime(value: string): number {
+    const parts = String(value).trim().split(':')
+    if (parts.length > 3 || parts.some((v) => !/^\d+(\.\d+)?$/.test(v))) {
+      return NaN
+    }
+    return Math.round(parts.reduce((sum, v) => sum * 60 + Number(v), 0) * 1000)
+  }
+
+  public static getDisplaySize(bytes: number) {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB']
+    let value = bytes
+    let i = 0
+    while (value >= 1024 && i < units.length - 1) {
+      value /= 1024
+      i += 1
+    }
+    return `${Math.round(value * 10) / 10}${units[i]}`
+  }
+
   public static getDateTimeString(ms?: number): string {
     const date = ms
       ? new Date(ms)
@@ -30,8 +53,8 @@ export class Util {
     return s
   }
 
-  public static getUserRefreshInterval(): number {
-    const interval = Number(configManager.config.interval || APP_USER_REFRESH_INTERVAL)
+  public static getUserRefreshInterval(username?: string): number {
+    const interval = Number(configManager.getUserOptions(username).interval)
     return interval
   }
 
@@ -44,13 +67,38 @@ export class Util {
   }
 
   public static getMediaDir(subDir = ''): string {
-    return path.join(process.cwd(), APP_DOWNLOAD_DIR, subDir || '')
+    return path.resolve(process.cwd(), configManager.config?.downloadDir || APP_DOWNLOAD_DIR, subDir || '')
   }
 
   public static createMediaDir(subDir = ''): string {
     return fs.mkdirSync(this.getMediaDir(subDir), { recursive: true })
   }
 
+  /**
+   * Free space (bytes) of the disk of a path, from statfs (Node 18.15+) or `df`.
+   * Undefined when neither is available
+   */
+  public static getFreeSpace(dir: string): number {
+    let existingDir = dir
+    while (!fs.existsSync(existingDir) && path.dirname(existingDir) !== existingDir) {
+      existingDir = path.dirname(existingDir)
+    }
+    // statfs is missing from @types/node 14
+    const { statfsSync } = fs as typeof fs & { statfsSync?: (path: string) => { bavail: number, bsize: number } }
+    if (statfsSync) {
+      const stats = statfsSync(existingDir)
+      return stats.bavail * stats.bsize
+    }
+    try {
+      // POSIX output: Filesystem 1024-blocks Used Available Capacity Mounted on
+      const output = execFileSync('df', ['-Pk', existingDir], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] })
+      const available = Number(output.trim().split('\n').pop().split(/\s+/)[3])
+      return Number.isFinite(available) ? available * 1024 : undefined
+    } catch (error) {
+      return undefined
+    }
+  }
+
   /**
     * @see https://en.wikipedia.org/wiki/Filename#Reserved_characters_and_words
     */
@@ -0,0 +1,141 @@
+import { time } from '@discordjs/builders'
+import FormData from 'form-data'
+import { createReadStream, existsSync } from 'fs'
+import path from 'path'
+import { APP_WEBHOOK_MAX_ATTACHMENTS } from '../constants/app.constant'
+import { AudioSpaceMetadataState } from '../enums/Twitter.enum'
+import { DiscordWebhookConfig } from '../interfaces/App.interface'
+import { RecordingIntegrity } from '../interfaces/Hls.interface'
+import { AudioSpace, SpaceTrackedParticipant } from '../interfaces/Twitter.interface'
+import { configManager } from '../modules/ConfigManager'
+import { SpaceUtil } from './SpaceUtil'
+import { Util } from './Util'
+
+export interface DiscordEmbedField {
+  name: string
+  value: string
+  inline?: boolean
+}
+
+const SCHEDULED_STATES = [AudioSpaceMetadataState.NOT_STARTED, AudioSpaceMetadataState.PRE_PUBLISHED]
+
+export class WebhookUtil {
+  /**
+   * Discord timestamp, shown in the local time of the reader
+   */
+  public static getLocalTime(ms: number): string {
+    if (!ms) {
+      return null
+    }
+    return [
+      time(Math.floor(ms / 1000)),
+      time(Math.floor(ms / 1000), 'R'),
+    ].join('\n')
+  }
+
+  /**
+   * Webhook routed to the tracked user of the Space, mentioning a user that hosts or joined it
+   */
+  public static isRecipient(config: DiscordWebhookConfig, audioSpace: AudioSpace, usernames: string[]): boolean {
+    const { webhookIds } = configManager.getUserOptions(SpaceUtil.getTrackedUsername(audioSpace))
+    if (webhookIds && !webhookIds.includes(config.id)) {
+      return false
+    }
+    if (usernames.includes('<all>')) {
+      return true
+    }
+    const hostUsername = SpaceUtil.getHostUsername(audioSpace)?.toLowerCase()
+    const trackedUsernames = (audioSpace.tracked_participants || []).map((v) => v.username.toLowerCase())
+    return usernames.some((v) => v === hostUsername || trackedUsernames.includes(v) || SpaceUtil.isParticipant(audioSpace, v))
+  }
+
+  /**
+   * Message of scheduled & canceled Spaces
+   */
+  public static getScheduleMessage(config: DiscordWebhookConfig, state: AudioSpaceMetadataState): string {
+    if (SCHEDULED_STATES.includes(state)) {
+      return config.scheduledMessage
+    }
+    if (state === AudioSpaceMetadataState.CANCELED) {
+      return config.canceledMessage
+    }
+    return undefined
+  }
+
+  public static getScheduleFields(audioSpace: AudioSpace, spaceUrl: string): DiscordEmbedField[] {
+    const { state, scheduled_start: scheduledStart } = audioSpace.metadata
+    const fields: DiscordEmbedField[] = []
+    if (SCHEDULED_STATES.includes(state)) {
+      if (scheduledStart) {
+        fields.push({ name: '🗓️ Scheduled for', value: this.getLocalTime(scheduledStart), inline: true })
+      }
+      fields.push({ name: '🔗 Links', value: `[🌌 Twitter Space](${spaceUrl})` })
+    }
+    if (state === AudioSpaceMetadataState.CANCELED) {
+      fields.push({
+        name: '❌ Canceled',
+        value: scheduledStart ? `Was scheduled for ${this.getLocalTime(scheduledStart)}` : 'Space canceled',
+      })
+    }
+    return fields
+  }
+
+  /**
+   * Tracked guests, integrity & link of the stored audio
+   */
+  public static getRecordingFields(
+    participants: SpaceTrackedParticipant[],
+    integrity?: RecordingIntegrity,
+    audioUrl?: string,
+    audioFile?: string,
+  ): DiscordEmbedField[] {
+    const fields: DiscordEmbedField[] = []
+    if (participants.length) {
+      fields.push({
+        name: '👥 Guests',
+        value: participants.map((v) => `[${v.username}](https://twitter.com/${v.username}) (${v.role})`).join(', '),
+      })
+    }
+    if (integrity) {
+      fields.push({ name: '💾 Recording', value: this.getIntegrityText(integrity), inline: true })
+    }
+    if (audioUrl) {
+      fields.push({ name: '🎧 Audio', value: `[${path.basename(audioFile)}](${audioUrl})`, inline: true })
+    }
+    return fields
+  }
+
+  public static getIntegrityText(integrity: RecordingIntegrity): string {
+    const duration = integrity.duration ? ` (${Util.getDisplayTime(integrity.duration)})` : ''
+    switch (integrity.status) {
+      case 'verified':
+        return `✅ Verified${duration}`
+      case 'repaired':
+        return `🛠️ Repaired ${integrity.gaps.length} gap(s)${duration}`
+      default:
+        if (integrity.missingChunks.length) {
+          return `⚠️ Incomplete, ${integrity.missingChunks.length} chunk(s) missing${duration}`
+        }
+        return `⚠️ Incomplete, expected ${Util.getDisplayTime(integrity.expectedDuration || integrity.playlistDuration)}${duration}`
+    }
+  }
+
+  /**
+   * Clips of keyword hits, if enabled for the user.
+   * Form data streams can only be sent once, a payload is created per url
+   */
+  public static getClipsPayload(audioSpace: AudioSpace): FormData {
+    const { clips } = configManager.getUserOptions(SpaceUtil.getTrackedUsername(audioSpace))
+    const files = (audioSpace.clip_files || [])
+      .filter((file) => existsSync(file))
+      .slice(0, APP_WEBHOOK_MAX_ATTACHMENTS)
+    if (!clips.webhook || !files.length) {
+      return null
+    }
+    const formData = new FormData()
+    formData.append('username', SpaceUtil.getHostUsername(audioSpace))
+    formData.append('avatar_url', SpaceUtil.getHostProfileImgUrl(audioSpace))
+    files.forEach((file, i) => formData.append(`files[${i}]`, createReadStream(file)))
+    return formData
+  }
+}
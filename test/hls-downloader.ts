@@ -0,0 +1,181 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import {
+  chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync,
+} from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { HlsDownloader } from '../src/modules/HlsDownloader'
+
+export const lab = Lab.script()
+const {
+  after, afterEach, before, beforeEach, describe, it,
+} = lab
+
+interface Fixture {
+  /**
+   * Chunk indexes listed in the playlist
+   */
+  indexes: number[]
+  /**
+   * Chunk indexes served, by default every listed chunk
+   */
+  served?: number[]
+  /**
+   * Number of requests failing with 500 before a chunk is served
+   */
+  failures?: Record<number, number>
+}
+
+const PLAYLIST_PATH = '/Transcoding/v1/hls/abc/transcode/us-east-1/periscope-replay-direct-prod-us-east-1-public/audio-space/playlist_123.m3u8'
+
+const writeBin = (dir: string, name: string, body: string) => {
+  const file = path.join(dir, name)
+  writeFileSync(file, `#!/bin/sh\n${body}\n`)
+  chmodSync(file, 0o755)
+}
+
+describe('HlsDownloader', () => {
+  const { PATH } = process.env
+  let dir: string
+  let server: http.Server
+  let fixture: Fixture
+  let requests: number[]
+  let playlistUrl: string
+
+  before(async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'hls-'))
+    const binDir = path.join(dir, 'bin')
+    mkdirSync(binDir)
+    // copies the joined chunks to the output (last argument)
+    writeBin(binDir, 'ffmpeg', 'input="$3"\nfor last; do :; done\ncp "$input" "$last"')
+    // 1 byte per second
+    writeBin(binDir, 'ffprobe', 'for last; do :; done\nwc -c < "$last"')
+    process.env.PATH = `${binDir}${path.delimiter}${PATH}`
+
+    server = http.createServer((req, res) => {
+      if (req.url.endsWith('.m3u8')) {
+        res.end([
+          '#EXTM3U',
+          ...fixture.indexes.flatMap((i) => ['#EXTINF:1.000,', `chunk_1700000000_${i}_a.aac`]),
+          '#EXT-X-ENDLIST',
+        ].join('\n'))
+        return
+      }
+      const index = Number(/chunk_\d+_(\d+)_a\.aac/.exec(req.url)?.[1])
+      requests.push(index)
+      const failures = fixture.failures?.[index] || 0
+      if (failures) {
+        fixture.failures[index] = failures - 1
+        res.statusCode = 500
+        res.end()
+        return
+      }
+      if (!(fixture.served || fixture.indexes).includes(index)) {
+        res.statusCode = 404
+        res.end()
+        return
+      }
+      res.end(String(index))
+    })
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    playlistUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}${PLAYLIST_PATH}`
+  })
+
+  after(() => {
+    process.env.PATH = PATH
+    server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  let outputFile: string
+
+  beforeEach(() => {
+    requests = []
+    outputFile = path.join(mkdtempSync(path.join(dir, 'rec-')), 'space.m4a')
+  })
+
+  afterEach(() => {
+    rmSync(path.dirname(outputFile), { recursive: true, force: true })
+  })
+
+  const options = { retries: 2, retryDelay: 1 }
+
+  it('downloads & joins chunks in order', async () => {
+    fixture = { indexes: [0, 1, 2, 3] }
+    const integrity = await new HlsDownloader(playlistUrl, outputFile, options).download()
+    expect(readFileSync(outputFile, 'utf-8')).to.equal('0123')
+    expect(integrity.status).to.equal('verified')
+    expect(integrity.chunkCount).to.equal(4)
+    expect(existsSync(`${outputFile.replace(/\.m4a$/, '')}.chunks`)).to.be.false()
+    const manifest = HlsDownloader.readManifest(HlsDownloader.getManifestFile(outputFile))
+    expect(manifest.complete).to.be.true()
+    expect(manifest.chunks.every((v) => v.fetched)).to.be.true()
+  })
+
+  it('keeps the joined chunks as the source of post-processing', async () => {
+    fixture = { indexes: [0, 1, 2, 3] }
+    await new HlsDownloader(playlistUrl, outputFile, { ...options, keepRaw: true }).download()
+    expect(readFileSync(HlsDownloader.getRawFile(outputFile), 'utf-8')).to.equal('0123')
+    expect(HlsDownloader.readManifest(HlsDownloader.getManifestFile(outputFile)).options.keepRaw).to.be.true()
+  })
+
+  it('retries failed chunks', async () => {
+    fixture = { indexes: [0, 1, 2], failures: { 1: 2 } }
+    const integrity = await new HlsDownloader(playlistUrl, outputFile, options).download()
+    expect(readFileSync(outputFile, 'utf-8')).to.equal('012')
+    expect(integrity.status).to.equal('verified')
+    expect(requests.filter((v) => v === 1)).to.have.length(3)
+  })
+
+  it('resumes from the manifest, only missing chunks are fetched', async () => {
+    fixture = { indexes: [0, 1, 2, 3], served: [0, 1, 3] }
+    await expect(new HlsDownloader(playlistUrl, outputFile, options).download()).to.reject(Error, 'Failed to download 1/4 chunks: 2')
+    const manifestFile = HlsDownloader.getManifestFile(outputFile)
+    const manifest = HlsDownloader.readManifest(manifestFile)
+    expect(manifest.complete).to.be.false()
+    expect(manifest.chunks.filter((v) => !v.fetched).map((v) => v.index)).to.equal([2])
+
+    fixture.served = undefined
+    requests = []
+    const integrity = await HlsDownloader.fromManifest(manifestFile).download()
+    expect(requests).to.equal([2])
+    expect(readFileSync(outputFile, 'utf-8')).to.equal('0123')
+    expect(integrity.status).to.equal('verified')
+    expect(HlsDownloader.readManifest(manifestFile).complete).to.be.true()
+  })
+
+  it('reports chunks missing from the playlist', async () => {
+    fixture = { indexes: [0, 1, 3] }
+    const integrity = await new HlsDownloader(playlistUrl, outputFile, { ...options, lastChunkIndex: 4 }).download()
+    expect(readFileSync(outputFile, 'utf-8')).to.equal('013')
+    expect(integrity.status).to.equal('incomplete')
+    expect(integrity.gaps).to.equal([2, 4])
+    expect(integrity.missingChunks).to.equal([2, 4])
+  })
+
+  it('repairs chunks missing from the playlist from the chunk url pattern', async () => {
+    fixture = { indexes: [0, 1, 3], served: [0, 1, 2, 3, 4] }
+    const integrity = await new HlsDownloader(playlistUrl, outputFile, { ...options, lastChunkIndex: 4 }).download()
+    expect(readFileSync(outputFile, 'utf-8')).to.equal('01234')
+    expect(integrity.status).to.equal('repaired')
+    expect(integrity.gaps).to.equal([2, 4])
+    expect(integrity.missingChunks).to.equal([])
+    const manifest = HlsDownloader.readManifest(HlsDownloader.getManifestFile(outputFile))
+    expect(manifest.chunks.map((v) => v.index)).to.equal([0, 1, 2, 3, 4])
+  })
+
+  it('refuses to download the same recording twice at once', async () => {
+    fixture = { indexes: [0, 1] }
+    const downloads = [
+      new HlsDownloader(playlistUrl, outputFile, options).download(),
+      new HlsDownloader(playlistUrl, outputFile, options).download(),
+    ]
+    await expect(downloads[1]).to.reject(Error, 'Recording is already being downloaded')
+    expect((await downloads[0]).status).to.equal('verified')
+  })
+})
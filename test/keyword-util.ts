@@ -0,0 +1,46 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import { KeywordUtil } from '../src/utils/KeywordUtil'
+
+export const lab = Lab.script()
+const { describe, it } = lab
+
+describe('KeywordUtil', () => {
+  const groyper = KeywordUtil.compile({ label: 'groyper', fuzzy: { phonetic: true } })
+  const claremont = KeywordUtil.compile({ label: 'Claremont', fuzzy: { phonetic: true } })
+
+  it('matches words that sound like the keyword', () => {
+    ['the criper guy', 'groipper', 'a grouper'].forEach((text) => {
+      const matches = KeywordUtil.findMatches(text, [groyper])
+      expect(matches).to.have.length(1)
+      expect(matches[0]).to.include({ label: 'groyper', matcher: 'phonetic', confidence: 1 })
+    })
+    const matches = KeywordUtil.findMatches('Clairmont institute and Klairmont', [claremont])
+    expect(matches.map((v) => v.text)).to.equal(['Clairmont', 'Klairmont'])
+  })
+
+  it('ignores short words and words that do not sound alike', () => {
+    const keyword = KeywordUtil.compile({ label: 'Goose', aliases: ['Goose', 'geese'], fuzzy: { phonetic: true } })
+    expect(KeywordUtil.findMatches('a gas guy', [keyword])).to.equal([])
+    expect(KeywordUtil.findMatches('the keeper of the group', [groyper])).to.equal([])
+  })
+
+  it('applies the threshold to edit distance matches', () => {
+    const keyword = KeywordUtil.compile({ label: 'Spoods', fuzzy: { editDistance: true } })
+    const [match] = KeywordUtil.findMatches('the spoodz again', [keyword])
+    expect(match).to.include({ matcher: 'fuzzy', text: 'spoodz', confidence: 0.83 })
+    expect(KeywordUtil.findMatches('the spots again', [keyword])).to.equal([])
+    const strict = KeywordUtil.compile({ label: 'Spoods', fuzzy: { editDistance: true, threshold: 0.9 } })
+    expect(KeywordUtil.findMatches('the spoodz again', [strict])).to.equal([])
+  })
+
+  it('prefers exact aliases over fuzzy matches', () => {
+    const keyword = KeywordUtil.compile({
+      label: 'Bronze Age',
+      aliases: ['Bronze Age'],
+      fuzzy: { phonetic: true, editDistance: true },
+    })
+    const [match] = KeywordUtil.findMatches('in the Bronze Age', [keyword])
+    expect(match).to.include({ matcher: 'alias', text: 'Bronze Age', confidence: 1 })
+  })
+})
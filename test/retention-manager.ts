@@ -0,0 +1,114 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import {
+  mkdirSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync,
+} from 'fs'
+import os from 'os'
+import path from 'path'
+import { RETENTION_DAY } from '../src/constants/retention.constant'
+import { Config, RetentionConfig } from '../src/interfaces/App.interface'
+import { PipelineState } from '../src/interfaces/Pipeline.interface'
+import { configManager } from '../src/modules/ConfigManager'
+import { retentionManager } from '../src/modules/RetentionManager'
+
+export const lab = Lab.script()
+const {
+  afterEach, beforeEach, describe, it,
+} = lab
+
+describe('RetentionManager', () => {
+  let downloadDir: string
+
+  beforeEach(() => {
+    downloadDir = mkdtempSync(path.join(os.tmpdir(), 'retention-'))
+  })
+
+  afterEach(() => {
+    rmSync(downloadDir, { recursive: true, force: true })
+  })
+
+  /**
+   * Writes a recording with its pipeline state, every file modified `age` ms ago
+   */
+  const addRecording = (subDir: string, name: string, options: {
+    age: number
+    username?: string
+    complete?: boolean
+    files?: Record<string, string | Buffer>
+  }) => {
+    const dir = path.join(downloadDir, subDir)
+    mkdirSync(dir, { recursive: true })
+    const state: Pick<PipelineState, 'filename' | 'options'> & { stages: Partial<PipelineState['stages']> } = {
+      filename: name,
+      options: { username: options.username, transcribe: false },
+      stages: { ffmpeg: { status: options.complete === false ? 'error' : 'complete', file: name, retries: 0 } },
+    }
+    writeFileSync(path.join(dir, `${name}.state.json`), JSON.stringify(state))
+    Object.entries(options.files || { '.m4a': 'audio' })
+      .forEach(([suffix, data]) => writeFileSync(path.join(dir, name + suffix), data))
+    const time = (Date.now() - options.age) / 1000
+    readdirSync(dir)
+      .filter((v) => v.startsWith(name))
+      .forEach((v) => utimesSync(path.join(dir, v), time, time))
+  }
+
+  const plan = (retention: RetentionConfig) => {
+    const config: Config = { downloadDir, retention }
+    configManager.config = config
+    return retentionManager.run(true)
+  }
+
+  const getDeleted = async (retention: RetentionConfig) => (await plan(retention))
+    .filter((v) => v.type === 'delete')
+    .map((v) => `${v.rule}:${v.recording}`)
+
+  it('deletes recordings older than maxAge', async () => {
+    addRecording('alice', 'old', { age: 40 * RETENTION_DAY, username: 'alice' })
+    addRecording('alice', 'new', { age: 2 * RETENTION_DAY, username: 'alice' })
+    expect(await getDeleted({ maxAge: 30 })).to.equal(['maxAge:old'])
+  })
+
+  it('keeps the newest recordings of each username, across directories', async () => {
+    addRecording('alice', 'a1', { age: 3 * RETENTION_DAY, username: 'alice' })
+    addRecording('guests', 'a2', { age: 2 * RETENTION_DAY, username: 'Alice' })
+    addRecording('alice', 'a3', { age: 1 * RETENTION_DAY, username: 'alice' })
+    addRecording('bob', 'b1', { age: 5 * RETENTION_DAY, username: 'bob' })
+    expect(await getDeleted({ keepPerUser: 2 })).to.equal(['keepPerUser:a1'])
+  })
+
+  it('deletes the oldest recordings above maxSize', async () => {
+    const files = { '.m4a': Buffer.alloc(1024 * 1024) }
+    addRecording('alice', 'a1', { age: 3 * RETENTION_DAY, files })
+    addRecording('alice', 'a2', { age: 2 * RETENTION_DAY, files })
+    addRecording('alice', 'a3', { age: 1 * RETENTION_DAY, files })
+    expect(await getDeleted({ maxSize: 2.5 })).to.equal(['maxSize:a1'])
+  })
+
+  it('never deletes active or incomplete recordings', async () => {
+    addRecording('alice', 'recording', { age: 10 * 60000, username: 'alice' })
+    addRecording('alice', 'failed', { age: 40 * RETENTION_DAY, username: 'alice', complete: false })
+    addRecording('alice', 'chunks', { age: 40 * RETENTION_DAY, username: 'alice', files: { '.m4a.chunks': '' } })
+    expect(await getDeleted({ maxAge: 0, maxSize: 0 })).to.equal([])
+    // counted, so the complete recording is the one over the limit
+    addRecording('alice', 'done', { age: 50 * RETENTION_DAY, username: 'alice' })
+    expect(await getDeleted({ keepPerUser: 1 })).to.equal(['keepPerUser:done'])
+  })
+
+  it('drops intermediates and compresses audio of old recordings', async () => {
+    addRecording('alice', 'space', {
+      age: 40 * RETENTION_DAY,
+      files: {
+        '.m4a': 'audio',
+        '.mp3': 'audio',
+        '.vtt': 'captions',
+        '-live.transcript.vtt': 'captions',
+      },
+    })
+    addRecording('alice', 'recent', { age: 2 * RETENTION_DAY })
+    const actions = await plan({ dropIntermediatesAfter: 7, compressAfter: 30 })
+    expect(actions.map((v) => ({ rule: v.rule, recording: v.recording, files: v.files.map((file) => path.basename(file)).sort() }))).to.equal([
+      { rule: 'dropIntermediatesAfter', recording: 'space', files: ['space-live.transcript.vtt', 'space.state.json'] },
+      { rule: 'compressAfter', recording: 'space', files: ['space.m4a'] },
+    ])
+  })
+})
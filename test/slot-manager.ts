@@ -0,0 +1,90 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import { Config } from '../src/interfaces/App.interface'
+import { configManager } from '../src/modules/ConfigManager'
+import { SlotRequest, slotManager } from '../src/modules/SlotManager'
+
+export const lab = Lab.script()
+const {
+  beforeEach, describe, it,
+} = lab
+
+describe('SlotManager', () => {
+  let admitted: string[]
+  let releases: Record<string, () => void>
+
+  beforeEach(() => {
+    const config: Config = {
+      concurrency: { recordings: 1 },
+      categories: [{ name: 'vtuber', concurrency: { postProcess: 1 } }],
+      users: [{ username: 'alice', category: 'vtuber' }, { username: 'bob' }],
+    }
+    configManager.config = config
+    admitted = []
+    releases = {}
+  })
+
+  const acquire = (request: SlotRequest) => slotManager.acquire(request).then((release) => {
+    admitted.push(request.name)
+    releases[request.name] = release
+  })
+
+  // admitted waiters resolve on the next ticks
+  const flush = () => new Promise((resolve) => {
+    setImmediate(resolve)
+  })
+
+  it('admits waiters by priority, then in order of arrival', async () => {
+    acquire({ slot: 'recordings', name: 'first' })
+    acquire({ slot: 'recordings', name: 'low', priority: 0 })
+    acquire({ slot: 'recordings', name: 'high', priority: 5 })
+    acquire({ slot: 'recordings', name: 'later', priority: 0 })
+    await flush()
+    expect(admitted).to.equal(['first'])
+    expect(slotManager.getWaiters('recordings').map((v) => v.name)).to.equal(['high', 'low', 'later'])
+
+    const order = ['first', 'high', 'low', 'later']
+    // eslint-disable-next-line no-restricted-syntax
+    for (const [i, name] of order.entries()) {
+      expect(admitted).to.equal(order.slice(0, i + 1))
+      releases[name]()
+      // eslint-disable-next-line no-await-in-loop
+      await flush()
+    }
+    expect(slotManager.getWaiters()).to.equal([])
+  })
+
+  it('does not block other categories with a category limit', async () => {
+    acquire({ slot: 'postProcess', name: 'alice-1', username: 'alice' })
+    acquire({
+      slot: 'postProcess', name: 'alice-2', username: 'alice', priority: 10,
+    })
+    acquire({ slot: 'postProcess', name: 'bob-1', username: 'bob' })
+    await flush()
+    expect(admitted).to.equal(['alice-1', 'bob-1'])
+    expect(slotManager.getWaiters('postProcess').map((v) => v.name)).to.equal(['alice-2'])
+
+    releases['bob-1']()
+    await flush()
+    expect(admitted).to.equal(['alice-1', 'bob-1'])
+    releases['alice-1']()
+    await flush()
+    expect(admitted).to.equal(['alice-1', 'bob-1', 'alice-2'])
+    releases['alice-2']()
+  })
+
+  it('re-admits a waiter once a slot is released, releasing twice frees one slot', async () => {
+    acquire({ slot: 'recordings', name: 'a' })
+    acquire({ slot: 'recordings', name: 'b' })
+    acquire({ slot: 'recordings', name: 'c' })
+    await flush()
+    releases.a()
+    releases.a()
+    await flush()
+    expect(admitted).to.equal(['a', 'b'])
+    releases.b()
+    await flush()
+    expect(admitted).to.equal(['a', 'b', 'c'])
+    releases.c()
+  })
+})
@@ -0,0 +1,125 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import {
+  chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync,
+} from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { TranscriberFactory } from '../src/modules/transcribers/TranscriberFactory'
+
+export const lab = Lab.script()
+const {
+  after, before, describe, it,
+} = lab
+
+const VTT = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\nhello world\n'
+
+/**
+ * Writes an executable shell script, its arguments are saved to `<script>.args`
+ */
+const writeBin = (dir: string, name: string, body: string) => {
+  const file = path.join(dir, name)
+  writeFileSync(file, `#!/bin/sh\necho "$@" > "${dir}/${name}.args"\n${body}\n`)
+  chmodSync(file, 0o755)
+  return file
+}
+
+describe('transcribers', () => {
+  let dir: string
+  let binDir: string
+  let audioFile: string
+  const { PATH } = process.env
+
+  before(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'transcribers-'))
+    binDir = path.join(dir, 'bin')
+    audioFile = path.join(dir, 'space.m4a')
+    writeFileSync(audioFile, 'audio')
+    mkdirSync(binDir)
+    // whisper.cpp converts to wav first, last argument is the output file
+    writeBin(binDir, 'ffmpeg', 'for last; do :; done\ntouch "$last"')
+    process.env.PATH = `${binDir}${path.delimiter}${PATH}`
+  })
+
+  after(() => {
+    process.env.PATH = PATH
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('whisper writes captions to the output dir', async () => {
+    const binary = writeBin(binDir, 'whisper', `
+while [ $# -gt 0 ]; do
+  case "$1" in
+    --output_dir) out="$2"; shift ;;
+    --model|--output_format|--language|--threads) shift ;;
+    *) input="$1" ;;
+  esac
+  shift
+done
+printf '${VTT}' > "$out/$(basename "\${input%.*}").vtt"`)
+    const cues = await TranscriberFactory.create({ backend: 'whisper', binary, model: 'tiny' }).transcribe(audioFile)
+    expect(cues).to.equal([{ start: 1000, end: 2500, text: 'hello world' }])
+  })
+
+  it('faster-whisper uses whisper arguments', async () => {
+    const binary = writeBin(binDir, 'whisper-ctranslate2', `
+printf '${VTT}' > "${dir}/space.vtt"`)
+    const cues = await TranscriberFactory.create({ backend: 'faster-whisper', binary, language: 'en' }).transcribe(audioFile)
+    expect(cues).to.have.length(1)
+    expect(readFileSync(`${binary}.args`, 'utf-8')).to.contain('--language en')
+  })
+
+  it('whisper.cpp gets an absolute model path & a wav file', async () => {
+    const binary = writeBin(binDir, 'whisper-cli', `
+while [ $# -gt 0 ]; do
+  case "$1" in
+    -m) model="$2"; shift ;;
+    -f) input="$2"; shift ;;
+    -of) out="$2"; shift ;;
+  esac
+  shift
+done
+case "$model" in /*) ;; *) echo "relative model $model" >&2; exit 1 ;; esac
+[ -f "$input" ] || exit 2
+printf '${VTT}' > "$out.vtt"`)
+    const cues = await TranscriberFactory.create({ backend: 'whisper.cpp', binary, model: 'base.en' }).transcribe(audioFile)
+    expect(cues).to.have.length(1)
+    expect(readFileSync(`${binary}.args`, 'utf-8')).to.contain(`-m ${path.resolve('models', 'ggml-base.en.bin')}`)
+    expect(existsSync(path.join(dir, 'space.16k.wav'))).to.be.false()
+  })
+
+  it('rejects when the binary fails', async () => {
+    const binary = writeBin(binDir, 'whisper-fail', 'echo "model not found" >&2\nexit 3')
+    await expect(TranscriberFactory.create({ binary }).transcribe(audioFile)).to.reject(Error, /exited with code 3: model not found/)
+  })
+
+  it('rejects when the binary writes no captions', async () => {
+    const binary = writeBin(binDir, 'whisper-empty', 'exit 0')
+    await expect(TranscriberFactory.create({ binary }).transcribe(audioFile)).to.reject(Error, /output not found/)
+  })
+
+  it('http posts the audio & parses the response', async () => {
+    let body = ''
+    const server = http.createServer((req, res) => {
+      req.on('data', (chunk) => {
+        body += chunk
+      })
+      req.on('end', () => res.end(VTT))
+    })
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    try {
+      const { port } = server.address() as AddressInfo
+      const url = `http://127.0.0.1:${port}/v1/audio/transcriptions`
+      const cues = await TranscriberFactory.create({ backend: 'http', url, model: 'small' }).transcribe(audioFile)
+      expect(cues).to.equal([{ start: 1000, end: 2500, text: 'hello world' }])
+      expect(body).to.contain('name="model"\r\n\r\nsmall')
+      expect(body).to.contain('filename="space.m4a"')
+    } finally {
+      server.close()
+    }
+  })
+})
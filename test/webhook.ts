@@ -0,0 +1,125 @@
+import { expect } from '@hapi/code'
+import * as Lab from '@hapi/lab'
+import {
+  mkdirSync, mkdtempSync, rmSync, writeFileSync,
+} from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { AudioSpaceMetadataState } from '../src/enums/Twitter.enum'
+import { Config } from '../src/interfaces/App.interface'
+import { configManager } from '../src/modules/ConfigManager'
+import { spaceStore } from '../src/modules/SpaceStore'
+import { Webhook } from '../src/modules/Webhook'
+
+export const lab = Lab.script()
+const {
+  after, before, describe, it,
+} = lab
+
+describe('Webhook', () => {
+  const cwd = process.cwd()
+  const { fetch } = global as any
+  let dir: string
+  let server: http.Server
+  let payloads: any[]
+
+  before(async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'webhook-'))
+    // journal of webhook deliveries is written to the cache directory
+    process.chdir(dir)
+    // cozy captions webhook
+    Object.assign(global, { fetch: async () => ({ json: async () => ({}) }) })
+    payloads = []
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => {
+        body += chunk
+      })
+      req.on('end', () => {
+        payloads.push(JSON.parse(body))
+        res.statusCode = req.url === '/fail' ? 500 : 200
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+  })
+
+  after(() => {
+    process.chdir(cwd)
+    Object.assign(global, { fetch })
+    server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const getDiscordUrl = (pathname = '/webhook') => `http://127.0.0.1:${(server.address() as AddressInfo).port}${pathname}`
+
+  it('links a finished recording to its stored url', async () => {
+    const downloadDir = path.join(dir, 'download')
+    mkdirSync(path.join(downloadDir, 'alice'), { recursive: true })
+    writeFileSync(path.join(downloadDir, 'alice', 'space.ogg'), 'audio')
+    writeFileSync(path.join(downloadDir, 'alice', 'space.mp3'), 'audio')
+    const config: Config = {
+      downloadDir,
+      audio: { profiles: ['ogg', 'mp3'], webhook: 'mp3' },
+      storage: { backend: 'local', publicUrl: 'https://cdn.example.com/spaces/', webhookLinks: true },
+      webhooks: {
+        discord: [{
+          active: true,
+          urls: [getDiscordUrl()],
+          usernames: ['<all>'],
+        }],
+      },
+    }
+    configManager.config = config
+    const audioSpace: any = {
+      metadata: {
+        rest_id: '1YqKDqWqdPLsV',
+        state: AudioSpaceMetadataState.ENDED,
+        title: 'Test',
+        started_at: 1700000000000,
+        ended_at: '1700003600000',
+        creator_results: { result: { legacy: { screen_name: 'alice', name: 'Alice' } } },
+      },
+      recording_integrity: {
+        status: 'verified', duration: 3600000, playlistDuration: 3600000, chunkCount: 1200, gaps: [], missingChunks: [], checkedAt: 1,
+      },
+    }
+    await new Webhook(audioSpace, 'https://example.com/master_playlist.m3u8', 'space', 'alice').send()
+
+    expect(payloads).to.have.length(1)
+    const { fields } = payloads[0].embeds[0]
+    expect(fields.find((v) => v.name === '🎧 Audio').value).to.equal('[space.mp3](https://cdn.example.com/spaces/alice/space.mp3)')
+    expect(fields.find((v) => v.name === '💾 Recording').value).to.contain('Verified')
+  })
+
+  it('records a delivery only once Discord accepted it', async () => {
+    const audioSpace: any = {
+      metadata: {
+        rest_id: '1OdKrjBdPLsV',
+        state: AudioSpaceMetadataState.RUNNING,
+        title: 'Live',
+        started_at: 1700000000000,
+        creator_results: { result: { legacy: { screen_name: 'alice', name: 'Alice' } } },
+      },
+    }
+    const setDiscordUrl = (url: string) => {
+      const config: Config = {
+        downloadDir: path.join(dir, 'download'),
+        webhooks: { discord: [{ active: true, urls: [url], usernames: ['<all>'] }] },
+      }
+      configManager.config = config
+    }
+
+    setDiscordUrl(getDiscordUrl('/fail'))
+    await new Webhook(audioSpace, 'https://example.com/master_playlist.m3u8', undefined, 'alice').send()
+    expect(spaceStore.hasWebhook('1OdKrjBdPLsV', AudioSpaceMetadataState.RUNNING)).to.be.false()
+
+    setDiscordUrl(getDiscordUrl())
+    await new Webhook(audioSpace, 'https://example.com/master_playlist.m3u8', undefined, 'alice').send()
+    expect(spaceStore.hasWebhook('1OdKrjBdPLsV', AudioSpaceMetadataState.RUNNING)).to.be.true()
+  })
+})